@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { secondsToTimestamp } from "@/lib/srt-parser";
+import type { MockScenario } from "@/lib/ai/mock-model-client";
+import { POST } from "./route";
+
+const TOPICS = [
+  "Welcome and what we're building today",
+  "Setting up the Next.js project",
+  "Parsing subtitle files into cues",
+  "Prompting the model for key moments",
+  "Repairing gaps in the timestamps",
+  "Checking timestamps against the captions",
+  "Applying YouTube chapter rules",
+  "Wrapping up and next steps",
+];
+
+// Twenty-four minutes of captions, one topic every three minutes
+const SRT = TOPICS.flatMap((topic, index) =>
+  [0, 60, 120].map((offset, cue) => {
+    const start = index * 180 + offset;
+    return [
+      String(index * 3 + cue + 1),
+      `${secondsToTimestamp(start)} --> ${secondsToTimestamp(start + 55)}`,
+      cue === 0 ? topic : `More about ${topic.toLowerCase()}`,
+    ].join("\n");
+  })
+).join("\n\n");
+
+/**
+ * POST a transcript to the route
+ */
+function generate(body: object = {}, headers: Record<string, string> = {}): Promise<Response> {
+  return POST(
+    new Request("http://localhost/api/generate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ srtContent: SRT, fileName: "stream.srt", ...body }),
+    })
+  );
+}
+
+/**
+ * Every event in an NDJSON response
+ */
+async function readEvents(response: Response): Promise<Array<{ type: string }>> {
+  const text = await response.text();
+  return text
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe("POST /api/generate with the mock model", () => {
+  const originalEnv = { ...process.env };
+
+  const useScenario = (scenario: MockScenario) => {
+    process.env.MOCK_MODEL_SCENARIO = scenario;
+  };
+
+  beforeEach(() => {
+    process.env.TIMESTAMP_MODEL_PROVIDER = "mock";
+    delete process.env.TIMESTAMP_MODEL;
+    delete process.env.MOCK_MODEL_CHUNK_DELAY_MS;
+    delete process.env.MOCK_MODEL_FIXTURE;
+    delete process.env.TIMESTAMP_MODEL_RECORD;
+    process.env.TIMESTAMP_RETRY_BASE_DELAY_MS = "0";
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  test("echo returns the key moments as JSON", async () => {
+    useScenario("echo");
+    const response = await generate();
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    expect(result.keyMoments.length).toBeGreaterThan(1);
+    expect(result.keyMoments[0].time).toBe("00:00");
+    expect(result.metadata.model).toBe("mock:mock-echo");
+    expect(result.metadata.retryCount).toBe(0);
+  });
+
+  test("flaky succeeds after a retry and reports it", async () => {
+    useScenario("flaky");
+    const response = await generate();
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.keyMoments.length).toBeGreaterThan(1);
+    expect(result.metadata.retryCount).toBeGreaterThan(0);
+    expect(result.metadata.warningFlags).toContain("retried");
+  });
+
+  for (const scenario of ["malformed", "truncated"] as const) {
+    test(`${scenario} output is repaired or retried into valid key moments`, async () => {
+      useScenario(scenario);
+      const response = await generate();
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result.keyMoments.length).toBeGreaterThan(1);
+      for (const moment of result.keyMoments) {
+        expect(moment.time).toMatch(/^\d{2}:\d{2}$/);
+        expect(moment.description).not.toBe("");
+      }
+    });
+  }
+
+  test("no-object fails with a 500 error", async () => {
+    useScenario("no-object");
+    const response = await generate();
+    const result = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(result.error).toBe(
+      "Failed to generate valid timestamps. The AI response could not be parsed."
+    );
+  });
+
+  test("no-object ends the event stream with an error event", async () => {
+    useScenario("no-object");
+    const response = await generate({}, { Accept: "application/x-ndjson" });
+    const events = await readEvents(response);
+
+    expect(response.status).toBe(200);
+    expect(events[0].type).toBe("metadata");
+    expect(events.filter((event) => event.type === "retry")).toHaveLength(3);
+    expect(events.at(-1)?.type).toBe("error");
+    expect(events.some((event) => event.type === "done")).toBe(false);
+  });
+
+  test("echo streams drafted moments, then the final list and done", async () => {
+    useScenario("echo");
+    const response = await generate({}, { Accept: "application/x-ndjson" });
+    const types = (await readEvents(response)).map((event) => event.type);
+
+    expect(response.headers.get("content-type")).toContain("application/x-ndjson");
+    expect(types).toContain("moment");
+    expect(types.slice(-2)).toEqual(["moments", "done"]);
+    expect(types).not.toContain("error");
+  });
+
+  test("chunked mode streams each window's drafted moments", async () => {
+    useScenario("echo");
+    const response = await generate({ mode: "chunked" }, { Accept: "application/x-ndjson" });
+    const events = await readEvents(response);
+
+    expect(events[0]).toMatchObject({ type: "metadata", mode: "chunked" });
+    expect(events.filter((event) => event.type === "moment").length).toBeGreaterThan(0);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  test("uses a custom prompt template and reports its version", async () => {
+    useScenario("echo");
+    const response = await generate({
+      promptTemplate: {
+        version: "short-v1",
+        name: "Short chapters",
+        description: "",
+        template: "Chapters for {{durationFormatted}} of video:\n{{transcript}}",
+      },
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.metadata.promptVersion).toBe("short-v1");
+  });
+
+  test("rejects a custom prompt template with an unknown variable", async () => {
+    const response = await generate({
+      promptTemplate: {
+        version: "typo-v1",
+        name: "Typo",
+        description: "",
+        template: "{{transcript}} ends at {{endTimestmap}}",
+      },
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(result.error).toContain("{{endTimestmap}}");
+  });
+
+  test("replays a recorded run", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "vibestamps-fixture-"));
+    try {
+      useScenario("flaky");
+      process.env.TIMESTAMP_MODEL_RECORD = join(dir, "run.json");
+      const recorded = await (await generate()).json();
+
+      const fixture = JSON.parse(readFileSync(join(dir, "run.json"), "utf8"));
+      expect(fixture.recordedFrom).toBe("mock:mock-flaky");
+      // The failed first call, its retry, then any calls made to repair gaps
+      expect(fixture.steps[0].type).toBe("error");
+      expect(
+        fixture.steps.slice(1).every((step: { type: string }) => step.type === "response")
+      ).toBe(true);
+
+      delete process.env.TIMESTAMP_MODEL_RECORD;
+      process.env.MOCK_MODEL_FIXTURE = join(dir, "run.json");
+      const replayed = await (await generate()).json();
+
+      expect(replayed.keyMoments).toEqual(recorded.keyMoments);
+      expect(replayed.metadata.retryCount).toBe(recorded.metadata.retryCount);
+      expect(replayed.metadata.model).toBe("mock:fixture-mock:mock-flaky");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("a missing fixture is a server error", async () => {
+    process.env.MOCK_MODEL_FIXTURE = join(tmpdir(), "vibestamps-missing-fixture.json");
+    const response = await generate();
+
+    expect(response.status).toBe(500);
+  });
+
+  test("an unknown or inherited scenario name is a server error", async () => {
+    for (const scenario of ["nonexistent", "constructor", "toString"]) {
+      process.env.MOCK_MODEL_SCENARIO = scenario;
+      const response = await generate();
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error).toContain("MOCK_MODEL_SCENARIO");
+    }
+  });
+
+  test("a requested provider the server has no key for is a client error", async () => {
+    process.env.TIMESTAMP_MODEL_PROVIDER = "gateway";
+    delete process.env.ANTHROPIC_API_KEY;
+    const response = await generate({ model: { provider: "anthropic" } });
+
+    expect(response.status).toBe(400);
+  });
+
+  test("the configured provider missing its key is a server error", async () => {
+    process.env.TIMESTAMP_MODEL_PROVIDER = "anthropic";
+    delete process.env.ANTHROPIC_API_KEY;
+    const response = await generate();
+
+    expect(response.status).toBe(500);
+  });
+
+  test("requests can't select the mock model", async () => {
+    process.env.TIMESTAMP_MODEL_PROVIDER = "gateway";
+    const response = await generate({ model: { provider: "mock" } });
+
+    expect(response.status).toBe(400);
+  });
+});
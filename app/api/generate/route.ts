@@ -1,20 +1,43 @@
 /**
  * API Route: POST /api/generate
- * Generates AI-powered timestamps from SRT subtitle files
+ * Generates AI-powered timestamps from subtitle files and timestamped transcripts
  * 
  * Architecture: Service Layer Pattern
  * - Request validation: validateGenerateRequest
+ * - Format detection: detectAndParse
  * - Metadata extraction: SrtMetadataExtractor
- * - Business logic: TimestampGenerationService
+ * - Transcript cleanup, on unless disabled: cleanupTranscript (inside the service)
+ * - Model selection: createModelClient (gateway, OpenAI-compatible or Anthropic)
+ * - Prompt selection: versioned templates from lib/prompts or a custom template sent with the
+ *   request, plus an optional channel style profile
+ * - Business logic: TimestampGenerationService (single or chunked generation, gap repair,
+ *   grounding, requested moment count, chapter rules, result metadata and warning flags)
+ * - Response: one JSON document, or an NDJSON event stream when the client sends
+ *   `Accept: application/x-ndjson` (or `?stream=ndjson`)
  * - Error handling: ApiErrorHandler
  * 
  * Refactored from 451 lines → 90 lines → 35 lines (92% reduction)
  */
 
 import { validateGenerateRequest } from "@/lib/validation/request-validator";
+import { detectAndParse } from "@/lib/subtitle-formats";
 import { SrtMetadataExtractor } from "@/lib/services/srt-metadata-extractor";
 import { TimestampGenerationService } from "@/lib/services/timestamp-generation/TimestampGenerationService";
 import { ApiErrorHandler } from "@/lib/api/error-handler";
+import { createEventStreamResponse, wantsEventStream } from "@/lib/api/event-stream";
+import { DEFAULT_STYLE_PROFILE } from "@/lib/timestamp-utils/style-profile";
+
+/**
+ * Resolve a boolean-or-options request field: undefined when disabled, options otherwise
+ */
+function resolveOptions<T extends object>(
+  value: boolean | T | undefined,
+  enabledByDefault: boolean
+): T | undefined {
+  if (value === undefined) return enabledByDefault ? ({} as T) : undefined;
+  if (typeof value === "boolean") return value ? ({} as T) : undefined;
+  return value;
+}
 
 /**
  * POST /api/generate
@@ -23,17 +46,51 @@ import { ApiErrorHandler } from "@/lib/api/error-handler";
 export async function POST(request: Request) {
   try {
     // 1. Validate request
-    const { srtContent } = await validateGenerateRequest(request);
+    const {
+      srtContent,
+      fileName,
+      cleanup,
+      mode,
+      coverageRepair,
+      grounding,
+      model,
+      promptVersion,
+      promptTemplate,
+      styleProfile,
+      density,
+    } = await validateGenerateRequest(request);
 
-    // 2. Extract metadata
-    const metadata = SrtMetadataExtractor.extract(srtContent);
+    // 2. Detect subtitle format and extract metadata
+    const subtitle = detectAndParse(srtContent, fileName);
+    const metadata = SrtMetadataExtractor.extract(subtitle);
 
     // 3. Generate timestamps
-    const service = TimestampGenerationService.create();
-    const result = await service.generateTimestamps({ srtContent, metadata });
+    const service = TimestampGenerationService.create(model);
+    const generationRequest = {
+      srtContent,
+      subtitle,
+      metadata,
+      cleanup: resolveOptions(cleanup, true),
+      mode,
+      coverageRepair: resolveOptions(coverageRepair, true),
+      grounding: resolveOptions(grounding, true),
+      promptVersion,
+      promptTemplate,
+      styleProfile: styleProfile && { ...DEFAULT_STYLE_PROFILE, ...styleProfile },
+      density,
+    };
+
+    // 4a. Stream progress, warnings, drafted moments and the final moments as events
+    if (wantsEventStream(request)) {
+      return createEventStreamResponse((emit) =>
+        service.generateTimestamps(generationRequest, emit)
+      );
+    }
+
+    const result = await service.generateTimestamps(generationRequest);
 
-    // 4. Return streaming response
-    return result.toTextStreamResponse();
+    // 4b. Return the final key moments with result metadata as one JSON document
+    return Response.json(result);
   } catch (error) {
     return ApiErrorHandler.handleGenerationError(error);
   }
@@ -4,27 +4,64 @@ import { Particles } from "@/components/magicui/particles";
 import { SparklesText } from "@/components/magicui/sparkles-text";
 import { SrtUploader } from "@/components/SrtUploader";
 import { TimestampResults } from "@/components/TimestampResults";
+import { TimingAdjuster } from "@/components/TimingAdjuster";
+import { DensityControls } from "@/components/DensityControls";
+import { PromptTemplateEditor } from "@/components/PromptTemplateEditor";
+import { StyleProfileEditor } from "@/components/StyleProfileEditor";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { srtContentSchema, srtEntriesSchema } from "@/lib/schemas";
-import { SrtEntry } from "@/lib/srt-parser";
+import { getDurationInSeconds, serializeSrt, SrtEntry } from "@/lib/srt-parser";
 import { Doto } from "next/font/google";
-import { useState } from "react";
+import { cleanupTranscript } from "@/lib/transcript-cleanup";
+import {
+  DEFAULT_PROMPT_VERSION,
+  getPromptTemplate,
+  isPromptVersion,
+  type PromptTemplate,
+} from "@/lib/prompts";
+import type { DensityOptions } from "@/lib/timestamp-utils/density";
+import type { StyleProfile } from "@/lib/timestamp-utils/style-profile";
+import {
+  applyGenerationEvent,
+  INITIAL_GENERATION_STATE,
+  readGenerationEvents,
+  type GenerationState,
+} from "@/lib/generation-events";
+import { useMemo, useState } from "react";
 
 const doto = Doto({ weight: "900", subsets: ["latin"] });
 
 export default function Home() {
   const [srtContent, setSrtContent] = useState<string>(""); // Raw SRT with timestamps
+  const [fileName, setFileName] = useState<string>(""); // Hint for server-side format detection
   const [srtEntries, setSrtEntries] = useState<SrtEntry[]>([]);
+  const [timingAdjusted, setTimingAdjusted] = useState(false); // Timing fixes applied to srtEntries
+  const [uploadCount, setUploadCount] = useState(0); // Remounts the timing panel for new content
   const [isProcessing, setIsProcessing] = useState(false);
-  const [generatedContent, setGeneratedContent] = useState<string>("");
+  const [generation, setGeneration] = useState<GenerationState | null>(null); // Null until generating
   const [error, setError] = useState<string>("");
+  const [cleanupEnabled, setCleanupEnabled] = useState(true); // Same default as the API
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate>(() =>
+    getPromptTemplate(DEFAULT_PROMPT_VERSION)
+  );
+  const [styleProfile, setStyleProfile] = useState<StyleProfile | null>(null);
+  const [density, setDensity] = useState<DensityOptions | undefined>(); // Automatic when unset
+
+  const durationInSeconds = useMemo(() => getDurationInSeconds(srtEntries), [srtEntries]);
+
+  // Preview of the cleanup the API will apply, so the savings are visible before generating
+  const cleanupReport = useMemo(
+    () => (srtEntries.length > 0 ? cleanupTranscript(srtEntries).report : null),
+    [srtEntries]
+  );
 
   // Handle extracted SRT content
   const handleContentExtracted = (
     rawContent: string,
     _extractedText: string,
-    entries: SrtEntry[]
+    entries: SrtEntry[],
+    uploadedFileName: string
   ) => {
     // Validate content and entries with Zod
     try {
@@ -43,8 +80,11 @@ export default function Home() {
       }
 
       setSrtContent(rawContent); // Store raw SRT with timestamps for API processing
+      setFileName(uploadedFileName);
       setSrtEntries(entries);
-      setGeneratedContent(""); // Reset previous results
+      setTimingAdjusted(false);
+      setUploadCount((count) => count + 1);
+      setGeneration(null); // Reset previous results
       setError("");
     } catch (err) {
       console.error("Validation error:", err);
@@ -52,25 +92,38 @@ export default function Home() {
     }
   };
 
+  // Replace the uploaded captions with timing-adjusted ones (sent to the API as SRT)
+  const handleTimingApplied = (entries: SrtEntry[]) => {
+    setSrtEntries(entries);
+    setSrtContent(serializeSrt(entries));
+    setTimingAdjusted(true);
+    setGeneration(null);
+  };
+
+  // Forget the uploaded captions so nothing stale is sent for generation
+  const clearContent = () => {
+    setSrtContent("");
+    setFileName("");
+    setSrtEntries([]);
+    setTimingAdjusted(false);
+    setGeneration(null);
+  };
+
   // Process the SRT content with AI
   const processWithAI = async () => {
     if (!srtContent) return;
 
     setIsProcessing(true);
     setError("");
-    setGeneratedContent("");
+    setGeneration(null);
 
     // RAY-5: Timing instrumentation for Phase 1
     const timingMetrics = {
       requestStart: Date.now(),
-      firstByteTime: 0,
-      firstChunkTime: 0,
-      completionTime: 0,
-      totalChunks: 0,
-      totalBytes: 0,
+      firstEventTime: 0,
+      totalEvents: 0,
       fileSize: srtContent.length,
       entriesCount: srtEntries.length,
-      chunkTimings: [] as Array<{ chunkIndex: number; timestamp: number; size: number }>,
     };
 
     try {
@@ -92,8 +145,19 @@ export default function Home() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Accept: "application/x-ndjson",
         },
-        body: JSON.stringify({ srtContent }),
+        body: JSON.stringify({
+          srtContent,
+          fileName,
+          cleanup: cleanupEnabled,
+          // Built-in prompts are referenced by version, custom ones are sent in full
+          ...(isPromptVersion(promptTemplate.version)
+            ? { promptVersion: promptTemplate.version }
+            : { promptTemplate }),
+          styleProfile: styleProfile ?? undefined,
+          density,
+        }),
       });
 
       if (!response.ok) {
@@ -101,124 +165,41 @@ export default function Home() {
         throw new Error(errorData.error || "Failed to generate timestamps");
       }
 
-      // Handle streaming response from streamObject
-      // The response is a text stream containing partial JSON objects
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let accumulatedText = "";
-
-      if (reader) {
-        console.log("🚀 Starting to receive streaming data...");
-        let chunkCount = 0;
-
-        while (true) {
-          const { done, value } = await reader.read();
-
-          // Record first byte time (TTFB)
-          if (chunkCount === 0 && !timingMetrics.firstByteTime) {
-            timingMetrics.firstByteTime = Date.now();
-            const ttfb = timingMetrics.firstByteTime - timingMetrics.requestStart;
-            console.log(`⚡ [RAY-5] Time to First Byte (TTFB): ${ttfb}ms`);
-          }
-
-          if (done) {
-            timingMetrics.completionTime = Date.now();
-            const totalDuration = timingMetrics.completionTime - timingMetrics.requestStart;
-            const streamingDuration = timingMetrics.completionTime - timingMetrics.firstByteTime;
-
-            console.log("✅ Stream complete! Received", chunkCount, "chunks");
-            console.log("📊 [RAY-5] TIMING SUMMARY:", {
-              // Overall timing
-              totalDuration: `${totalDuration}ms (${(totalDuration / 1000).toFixed(2)}s)`,
-              ttfb: `${timingMetrics.firstByteTime - timingMetrics.requestStart}ms`,
-              streamingDuration: `${streamingDuration}ms (${(streamingDuration / 1000).toFixed(
-                2
-              )}s)`,
-
-              // Data metrics
-              totalBytes: timingMetrics.totalBytes,
-              chunkCount: chunkCount,
-              avgChunkSize: `${Math.round(timingMetrics.totalBytes / chunkCount)} bytes`,
-
-              // Throughput metrics
-              bytesPerSecond: Math.round(timingMetrics.totalBytes / (streamingDuration / 1000)),
-              charsPerSecond: Math.round(timingMetrics.totalBytes / (streamingDuration / 1000)),
-
-              // Input characteristics
-              inputFileSize: `${timingMetrics.fileSize} bytes`,
-              inputEntriesCount: timingMetrics.entriesCount,
-
-              // Estimated token metrics (rough: 1 token ≈ 4 chars)
-              estimatedInputTokens: Math.round(timingMetrics.fileSize / 4),
-              estimatedOutputTokens: Math.round(timingMetrics.totalBytes / 4),
-              estimatedTokensPerSecond: Math.round(
-                timingMetrics.totalBytes / 4 / (streamingDuration / 1000)
-              ),
-
-              // For Phase 2 analysis
-              durationPerEntry: `${(totalDuration / timingMetrics.entriesCount).toFixed(2)}ms`,
-              durationPer1000Bytes: `${((totalDuration / timingMetrics.fileSize) * 1000).toFixed(
-                2
-              )}ms`,
-            });
-
-            console.log(
-              "📈 [RAY-5] COPY THIS FOR ANALYSIS:",
-              JSON.stringify({
-                entriesCount: timingMetrics.entriesCount,
-                fileSize: timingMetrics.fileSize,
-                totalDuration,
-                ttfb: timingMetrics.firstByteTime - timingMetrics.requestStart,
-                streamingDuration,
-              })
-            );
-            break;
-          }
-
-          const chunk = decoder.decode(value, { stream: true });
-          accumulatedText += chunk;
-          chunkCount++;
-          timingMetrics.totalChunks = chunkCount;
-          timingMetrics.totalBytes += chunk.length;
-
-          // Record first chunk time
-          if (chunkCount === 1) {
-            timingMetrics.firstChunkTime = Date.now();
-            console.log(
-              `📦 First chunk received at ${
-                timingMetrics.firstChunkTime - timingMetrics.requestStart
-              }ms`
-            );
-          }
-
-          // Record chunk timings for detailed analysis (first 20 chunks)
-          if (chunkCount <= 20) {
-            timingMetrics.chunkTimings.push({
-              chunkIndex: chunkCount,
-              timestamp: Date.now() - timingMetrics.requestStart,
-              size: chunk.length,
-            });
-          }
-
-          // Log every 10th chunk to monitor progress
-          if (chunkCount % 10 === 0) {
-            const elapsed = Date.now() - timingMetrics.requestStart;
-            console.log(
-              `📦 Chunk ${chunkCount}: +${chunk.length} chars (total: ${accumulatedText.length}, elapsed: ${elapsed}ms)`
-            );
-          }
-
-          // Update state with accumulated text
-          // TimestampResults will parse this as structured data
-          setGeneratedContent(accumulatedText);
+      // The response is an NDJSON event stream: progress, warnings and drafted key moments, then
+      // the checked key moments
+      setGeneration(INITIAL_GENERATION_STATE);
+      await readGenerationEvents(response, (event) => {
+        timingMetrics.totalEvents++;
+        if (!timingMetrics.firstEventTime) {
+          timingMetrics.firstEventTime = Date.now();
+          console.log(
+            `⚡ [RAY-5] Time to first event: ${
+              timingMetrics.firstEventTime - timingMetrics.requestStart
+            }ms`
+          );
+        }
+        if (event.type === "progress") {
+          console.log(`⏳ ${Math.round(event.progress * 100)}% ${event.message}`);
         }
 
-        // Log final content for debugging
-        console.log("📝 Final content length:", accumulatedText.length, "characters");
-      }
+        setGeneration((previous) =>
+          applyGenerationEvent(previous ?? INITIAL_GENERATION_STATE, event)
+        );
+      });
+
+      const totalDuration = Date.now() - timingMetrics.requestStart;
+      console.log("📊 [RAY-5] TIMING SUMMARY:", {
+        totalDuration: `${totalDuration}ms (${(totalDuration / 1000).toFixed(2)}s)`,
+        timeToFirstEvent: `${timingMetrics.firstEventTime - timingMetrics.requestStart}ms`,
+        totalEvents: timingMetrics.totalEvents,
+        inputFileSize: `${timingMetrics.fileSize} bytes`,
+        inputEntriesCount: timingMetrics.entriesCount,
+        durationPerEntry: `${(totalDuration / timingMetrics.entriesCount).toFixed(2)}ms`,
+      });
     } catch (err) {
       console.error("Error generating timestamps:", err);
       setError(err instanceof Error ? err.message : "Failed to process your file");
+      setGeneration(null);
     } finally {
       setIsProcessing(false);
     }
@@ -266,7 +247,7 @@ export default function Home() {
             </div>
           </div>
           <p className="text-center text-muted-foreground max-w-2xl px-16 md:px-0">
-            Upload a .srt file to generate meaningful timestamps for YouTube videos.
+            Upload a subtitle file (.srt, .vtt, .sbv and more) to generate meaningful timestamps for YouTube videos.
           </p>
           <p className="text-center text-muted-foreground max-w-2xl px-16 md:px-0 flex items-center justify-center gap-2 py-2">
             Ray Fernando
@@ -328,9 +309,11 @@ export default function Home() {
         {/* Main Content - added justify-center to center content vertically */}
         <main className="flex flex-col items-center justify-center gap-6 md:gap-8 w-full flex-grow my-auto">
           {/* Step 1: File Upload (only show when not processing and no results) */}
-          {!isProcessing && !generatedContent && (
+          {!isProcessing && !generation && (
             <SrtUploader
               onContentExtracted={handleContentExtracted}
+              onCleared={clearContent}
+              timingAdjusted={timingAdjusted}
               onProcessFile={processWithAI}
               disabled={isProcessing}
               entriesCount={srtEntries.length}
@@ -338,6 +321,62 @@ export default function Home() {
             />
           )}
 
+          {/* Optional transcript cleanup before generation */}
+          {!isProcessing && !generation && cleanupReport && (
+            <label className="w-full max-w-2xl flex items-start gap-3 text-sm text-description bg-surface/60 p-3 rounded-xl border border-border/60 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 accent-brand"
+                checked={cleanupEnabled}
+                onChange={(e) => setCleanupEnabled(e.target.checked)}
+              />
+              <span>
+                <span className="font-medium text-brand">Clean up transcript</span> — remove
+                filler words, [Music]-style tags and repeated rolling captions before generating
+                {cleanupReport.estimatedTokensSaved > 0 && (
+                  <span className="block text-description/70">
+                    Saves ~{cleanupReport.estimatedTokensSaved.toLocaleString()} of{" "}
+                    {cleanupReport.estimatedTokensBefore.toLocaleString()} estimated tokens
+                  </span>
+                )}
+              </span>
+            </label>
+          )}
+
+          {/* Prompt template used for generation, built-in or the user's own */}
+          {!isProcessing && !generation && srtEntries.length > 0 && (
+            <PromptTemplateEditor
+              value={promptTemplate}
+              onChange={setPromptTemplate}
+              disabled={isProcessing}
+            />
+          )}
+
+          {/* Requested number of chapters */}
+          {!isProcessing && !generation && srtEntries.length > 0 && (
+            <DensityControls value={density} onChange={setDensity} />
+          )}
+
+          {/* Optional channel style for descriptions */}
+          {!isProcessing && !generation && srtEntries.length > 0 && (
+            <StyleProfileEditor
+              value={styleProfile}
+              onChange={setStyleProfile}
+              disabled={isProcessing}
+            />
+          )}
+
+          {/* Optional timing fixes before generation */}
+          {!isProcessing && !generation && srtEntries.length > 0 && (
+            <TimingAdjuster
+              key={uploadCount}
+              entries={srtEntries}
+              fileName={fileName}
+              onApply={handleTimingApplied}
+              disabled={isProcessing}
+            />
+          )}
+
           {/* Error Display (show at any step if there's an error) */}
           {error && (
             <div className="w-full max-w-2xl p-4 bg-error/10 border border-error/20 rounded-lg flex items-start gap-3 animate-in fade-in duration-300">
@@ -369,22 +408,18 @@ export default function Home() {
           )}
 
           {/* Step 2 & 3: Processing or Results */}
-          {(isProcessing || generatedContent) && (
+          {(isProcessing || generation) && (
             <div className="w-full flex flex-col items-center animate-in fade-in duration-300">
               <TimestampResults
                 isLoading={isProcessing}
-                content={generatedContent}
-                entriesCount={srtEntries.length}
+                generation={generation ?? INITIAL_GENERATION_STATE}
+                durationInSeconds={durationInSeconds}
               />
 
               {/* Only show reset button when results are generated and not loading */}
-              {generatedContent && !isProcessing && (
+              {generation && !isProcessing && (
                 <Button
-                  onClick={() => {
-                    setSrtContent("");
-                    setSrtEntries([]);
-                    setGeneratedContent("");
-                  }}
+                  onClick={clearContent}
                   variant="outline"
                   className="mt-6 mb-8 md:mb-12"
                 >
@@ -0,0 +1,161 @@
+import { densitySchema } from "@/lib/schemas";
+import type { DensityOptions } from "@/lib/timestamp-utils/density";
+import { useState } from "react";
+
+interface DensityControlsProps {
+  value: DensityOptions | undefined;
+  onChange: (density: DensityOptions | undefined) => void;
+}
+
+type DensityMode = "auto" | "exact" | "range" | "interval";
+
+const MODE_LABELS: Record<DensityMode, string> = {
+  auto: "Based on the content",
+  exact: "Exact number of chapters",
+  range: "Between a minimum and maximum",
+  interval: "One chapter every few minutes",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-border/80 bg-surface px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+/**
+ * Which mode a previously chosen density was entered in
+ */
+function getDensityMode(density: DensityOptions | undefined): DensityMode {
+  if (density?.targetCount) return "exact";
+  if (density?.targetIntervalSeconds) return "interval";
+  if (density?.minCount || density?.maxCount) return "range";
+  return "auto";
+}
+
+/**
+ * Parse a number input, treating an empty field as unset
+ */
+function toNumber(value: string): number | undefined {
+  return value.trim() === "" ? undefined : Number(value);
+}
+
+export function DensityControls({ value, onChange }: DensityControlsProps) {
+  // Fields start from the current density so they survive the panel being remounted
+  const [mode, setMode] = useState<DensityMode>(() => getDensityMode(value));
+  const [count, setCount] = useState(String(value?.targetCount ?? 8));
+  const [minCount, setMinCount] = useState(value?.minCount ? String(value.minCount) : "");
+  const [maxCount, setMaxCount] = useState(value ? String(value.maxCount ?? "") : "15");
+  const [intervalMinutes, setIntervalMinutes] = useState(
+    String((value?.targetIntervalSeconds ?? 180) / 60)
+  );
+  const [error, setError] = useState("");
+
+  const update = (
+    changes: Partial<{
+      mode: DensityMode;
+      count: string;
+      minCount: string;
+      maxCount: string;
+      intervalMinutes: string;
+    }>
+  ) => {
+    const next = { mode, count, minCount, maxCount, intervalMinutes, ...changes };
+    setMode(next.mode);
+    setCount(next.count);
+    setMinCount(next.minCount);
+    setMaxCount(next.maxCount);
+    setIntervalMinutes(next.intervalMinutes);
+
+    if (next.mode === "auto") {
+      setError("");
+      onChange(undefined);
+      return;
+    }
+
+    const interval = toNumber(next.intervalMinutes);
+    const result = densitySchema.safeParse(
+      next.mode === "exact"
+        ? { targetCount: toNumber(next.count) }
+        : next.mode === "range"
+          ? { minCount: toNumber(next.minCount), maxCount: toNumber(next.maxCount) }
+          : { targetIntervalSeconds: interval === undefined ? undefined : interval * 60 }
+    );
+    // Invalid input falls back to automatic density until it's corrected
+    setError(result.success ? "" : result.error.issues[0].message);
+    onChange(result.success ? result.data : undefined);
+  };
+
+  return (
+    <div className="w-full max-w-2xl flex flex-col gap-2 text-sm text-description bg-surface/60 p-3 rounded-xl border border-border/60">
+      <label className="flex flex-col gap-2">
+        <span className="font-medium text-brand">Chapters</span>
+        <select
+          className={inputClassName}
+          value={mode}
+          onChange={(e) => update({ mode: e.target.value as DensityMode })}
+        >
+          {(Object.keys(MODE_LABELS) as DensityMode[]).map((option) => (
+            <option key={option} value={option}>
+              {MODE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {mode === "exact" && (
+        <label className="flex flex-col gap-1">
+          Number of chapters
+          <input
+            className={inputClassName}
+            type="number"
+            min={1}
+            max={100}
+            value={count}
+            onChange={(e) => update({ count: e.target.value })}
+          />
+        </label>
+      )}
+
+      {mode === "range" && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="flex flex-col gap-1">
+            At least
+            <input
+              className={inputClassName}
+              type="number"
+              min={1}
+              max={100}
+              value={minCount}
+              onChange={(e) => update({ minCount: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            At most
+            <input
+              className={inputClassName}
+              type="number"
+              min={1}
+              max={100}
+              value={maxCount}
+              onChange={(e) => update({ maxCount: e.target.value })}
+            />
+          </label>
+        </div>
+      )}
+
+      {mode === "interval" && (
+        <label className="flex flex-col gap-1">
+          Minutes between chapters
+          <input
+            className={inputClassName}
+            type="number"
+            min={0.5}
+            max={60}
+            step={0.5}
+            value={intervalMinutes}
+            onChange={(e) => update({ intervalMinutes: e.target.value })}
+          />
+        </label>
+      )}
+
+      {error && <p className="text-error text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  getPromptTemplates,
+  getPromptVariableNames,
+  isPromptVersion,
+  type PromptTemplate,
+} from "@/lib/prompts";
+import { promptTemplateSchema } from "@/lib/schemas";
+import { useEffect, useState } from "react";
+
+interface PromptTemplateEditorProps {
+  value: PromptTemplate; // Built-in or custom template used for generation
+  onChange: (template: PromptTemplate) => void;
+  disabled: boolean;
+}
+
+// Custom templates are kept in the browser and sent with each request
+const STORAGE_KEY = "vibestamps:prompt-templates";
+
+const builtInTemplates = getPromptTemplates();
+
+const inputClassName =
+  "w-full rounded-xl border border-border/80 bg-surface px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+/**
+ * Read saved templates, ignoring anything that no longer matches the schema
+ */
+function loadTemplates(): PromptTemplate[] {
+  try {
+    const saved: unknown[] = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return saved.flatMap((template) => {
+      const result = promptTemplateSchema.safeParse(template);
+      return result.success ? [result.data] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function PromptTemplateEditor({ value, onChange, disabled }: PromptTemplateEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [version, setVersion] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [template, setTemplate] = useState("");
+  const [error, setError] = useState("");
+
+  const isCustom = !isPromptVersion(value.version);
+
+  // localStorage is only available after mounting
+  useEffect(() => setTemplates(loadTemplates()), []);
+
+  // Built-in templates are a starting point for a new version, custom ones are edited in place
+  const editTemplate = (selected: PromptTemplate) => {
+    const custom = !isPromptVersion(selected.version);
+    setVersion(custom ? selected.version : "");
+    setName(custom ? selected.name : `${selected.name} (edited)`);
+    setDescription(selected.description);
+    setTemplate(selected.template);
+    setError("");
+  };
+
+  const selectTemplate = (selectedVersion: string) => {
+    const selected = [...builtInTemplates, ...templates].find(
+      (candidate) => candidate.version === selectedVersion
+    );
+    if (!selected) return;
+    editTemplate(selected);
+    onChange(selected);
+  };
+
+  const saveTemplates = (updated: PromptTemplate[]) => {
+    setTemplates(updated);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  const saveTemplate = () => {
+    const result = promptTemplateSchema.safeParse({
+      version: version.trim(),
+      name: name.trim(),
+      description: description.trim(),
+      template,
+    });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    saveTemplates([
+      ...templates.filter((saved) => saved.version !== result.data.version),
+      result.data,
+    ]);
+    onChange(result.data);
+    setError("");
+  };
+
+  const deleteTemplate = () => {
+    if (!isCustom) return;
+    saveTemplates(templates.filter((saved) => saved.version !== value.version));
+    editTemplate(builtInTemplates[0]);
+    onChange(builtInTemplates[0]);
+  };
+
+  return (
+    <Card className="w-full max-w-2xl p-4 transition-all duration-300">
+      <CardContent className="flex flex-col gap-4 p-2">
+        <div className="flex items-center justify-between gap-4">
+          <label className="flex flex-1 flex-col gap-2 text-sm text-description">
+            <span className="font-medium text-brand">Prompt</span>
+            <select
+              className={inputClassName}
+              value={value.version}
+              onChange={(e) => selectTemplate(e.target.value)}
+              disabled={disabled}
+            >
+              {builtInTemplates.map((option) => (
+                <option key={option.version} value={option.version}>
+                  {option.name}
+                </option>
+              ))}
+              {templates.length > 0 && (
+                <optgroup label="Your prompts">
+                  {templates.map((option) => (
+                    <option key={option.version} value={option.version}>
+                      {option.name} ({option.version})
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <span className="text-description/70">{value.description}</span>
+          </label>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              if (!isOpen) editTemplate(value);
+              setIsOpen(!isOpen);
+            }}
+          >
+            {isOpen ? "Hide" : "Edit"}
+          </Button>
+        </div>
+
+        {isOpen && (
+          <div className="flex flex-col gap-4 animate-in fade-in duration-300">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <label className="flex flex-col gap-1 text-sm text-description">
+                Version
+                <input
+                  className={inputClassName}
+                  value={version}
+                  onChange={(e) => setVersion(e.target.value)}
+                  placeholder="my-v1"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-description">
+                Name
+                <input
+                  className={inputClassName}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Shorter chapters"
+                />
+              </label>
+            </div>
+
+            <label className="flex flex-col gap-1 text-sm text-description">
+              Description
+              <input
+                className={inputClassName}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm text-description">
+              Template
+              <textarea
+                className={`${inputClassName} min-h-64 font-mono`}
+                value={template}
+                onChange={(e) => setTemplate(e.target.value)}
+              />
+              <span className="text-description/70">
+                Variables:{" "}
+                {getPromptVariableNames()
+                  .map((variable) => `{{${variable}}}`)
+                  .join(", ")}
+              </span>
+            </label>
+
+            {error && <p className="text-error text-sm">{error}</p>}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={saveTemplate} disabled={disabled} size="sm">
+                Save and use
+              </Button>
+              {isCustom && (
+                <Button variant="outline" size="sm" onClick={deleteTemplate} disabled={disabled}>
+                  Delete {value.name}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
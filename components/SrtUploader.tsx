@@ -3,42 +3,153 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { MAX_FILE_SIZE } from "@/lib/constants";
 import { srtFileSchema } from "@/lib/schemas";
-import { extractTextFromSrt, parseSrtContent, SrtEntry } from "@/lib/srt-parser";
+import { decodeSubtitleBuffer } from "@/lib/text-encoding";
+import {
+  extractTextFromSrt,
+  formatTimestamp,
+  secondsToTimestamp,
+  serializeSrt,
+  SrtEntry,
+} from "@/lib/srt-parser";
+import {
+  detectAndParse,
+  getSupportedExtensions,
+  SubtitleFormatError,
+  type SubtitleParseWarning,
+} from "@/lib/subtitle-formats";
+import { mergeSubtitleParts, resolvePartOffsets } from "@/lib/subtitle-merge";
+import { parseTimeInput } from "@/lib/subtitle-timing";
 import { useRef, useState } from "react";
 
+// Parse warnings beyond this count are summarized rather than listed
+const MAX_VISIBLE_WARNINGS = 20;
+
+interface UploadedPart {
+  fileName: string;
+  content: string;
+  entries: SrtEntry[];
+  encoding: string;
+  warnings: SubtitleParseWarning[];
+  offsetInput: string; // Empty to append after the previous part
+}
+
 interface SrtUploaderProps {
-  onContentExtracted: (rawContent: string, extractedText: string, entries: SrtEntry[]) => void;
+  onContentExtracted: (
+    rawContent: string,
+    extractedText: string,
+    entries: SrtEntry[],
+    fileName: string
+  ) => void;
+  onCleared: () => void; // Every part was removed
   onProcessFile: () => void;
   disabled: boolean;
   entriesCount: number;
   hasContent: boolean;
+  timingAdjusted: boolean; // The page has applied timing adjustments to the current content
+}
+
+/**
+ * Combine uploaded parts into the content, entries and file name sent for generation
+ * A single part is passed through as uploaded
+ */
+function combineParts(parts: UploadedPart[]) {
+  if (parts.length === 1) {
+    const [part] = parts;
+    return { content: part.content, entries: part.entries, fileName: part.fileName };
+  }
+
+  const entries = mergeSubtitleParts(
+    parts.map((part) => ({
+      fileName: part.fileName,
+      entries: part.entries,
+      offsetSeconds: parseTimeInput(part.offsetInput),
+    }))
+  );
+  return {
+    content: serializeSrt(entries),
+    entries,
+    fileName: `${parts[0].fileName.replace(/\.[^.]+$/, "")}-merged.srt`,
+  };
 }
 
 export function SrtUploader({
   onContentExtracted,
+  onCleared,
   onProcessFile,
   disabled,
   entriesCount,
   hasContent,
+  timingAdjusted,
 }: SrtUploaderProps) {
-  const [fileName, setFileName] = useState<string>("");
+  const [parts, setParts] = useState<UploadedPart[]>([]);
   const [error, setError] = useState<string>("");
+  const [notice, setNotice] = useState<string>("");
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Latest parts, for uploads that finish reading after other changes to the list
+  const partsRef = useRef<UploadedPart[]>([]);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) processFile(file);
+    processFiles(Array.from(event.target.files ?? []));
+    event.target.value = ""; // Allow selecting the same file again
+  };
+
+  // Merge the parts into one timeline and hand it to the page as a single video
+  const updateParts = (nextParts: UploadedPart[]) => {
+    if (nextParts.length === 0) {
+      partsRef.current = nextParts;
+      setParts(nextParts);
+      setNotice("");
+      onCleared();
+      return;
+    }
+
+    const { content, entries, fileName } = combineParts(nextParts);
+    // The size limit applies to the merged transcript, so parts that fit alone can exceed it
+    if (new TextEncoder().encode(content).length > MAX_FILE_SIZE) {
+      setError(
+        `The merged parts are too large. Maximum size is ${MAX_FILE_SIZE / 1024}KB in total`
+      );
+      return;
+    }
+
+    // The merged timeline is rebuilt from the uploaded parts, without earlier timing fixes
+    setNotice(
+      timingAdjusted
+        ? "Timing adjustments were reset because the parts changed. Apply them again under Adjust Timing."
+        : ""
+    );
+    partsRef.current = nextParts;
+    setParts(nextParts);
+    setError("");
+    // Pass both raw subtitle content (with timestamps) and extracted text
+    onContentExtracted(content, extractTextFromSrt(entries), entries, fileName);
   };
 
-  const processFile = async (file: File) => {
-    setFileName(file.name);
+  const processFiles = async (files: File[]) => {
+    if (files.length === 0) return;
     setError("");
 
+    // Sort by name so "part1", "part2", "part10" arrive in recording order
+    const sortedFiles = [...files].sort((a, b) =>
+      a.name.localeCompare(b.name, undefined, { numeric: true })
+    );
+
+    const uploaded: UploadedPart[] = [];
+    for (const file of sortedFiles) {
+      const part = await processFile(file);
+      if (!part) return;
+      uploaded.push(part);
+    }
+
+    updateParts([...partsRef.current, ...uploaded]);
+  };
+
+  const processFile = async (file: File): Promise<UploadedPart | null> => {
     // Check file size before any other validation
     if (file.size > MAX_FILE_SIZE) {
-      setError(`File is too large. Maximum size is ${MAX_FILE_SIZE / 1024}KB`);
-      return;
+      setError(`${file.name} is too large. Maximum size is ${MAX_FILE_SIZE / 1024}KB`);
+      return null;
     }
 
     try {
@@ -50,10 +161,11 @@ export function SrtUploader({
 
       if (!validationResult.success) {
         setError(validationResult.error.issues[0].message);
-        return;
+        return null;
       }
 
-      const content = await file.text();
+      // Detect the encoding instead of assuming UTF-8 (Windows-1252 and UTF-16 files are common)
+      const { text: content, encoding } = decodeSubtitleBuffer(await file.arrayBuffer());
 
       // Now validate actual content
       const contentValidation = srtFileSchema.safeParse({
@@ -63,32 +175,58 @@ export function SrtUploader({
 
       if (!contentValidation.success) {
         setError(contentValidation.error.issues[0].message);
-        return;
+        return null;
       }
 
-      const entries = parseSrtContent(content);
-
-      if (entries.length === 0) {
-        setError("Could not parse any valid entries from the SRT file");
-        return;
+      const { entries, warnings } = detectAndParse(content, file.name);
+      return { fileName: file.name, content, entries, encoding, warnings, offsetInput: "" };
+    } catch (err) {
+      if (err instanceof SubtitleFormatError) {
+        setError(`${file.name}: ${err.message}`);
+        return null;
       }
 
-      const extractedText = extractTextFromSrt(entries);
-      // Pass both raw SRT content (with timestamps) and extracted text
-      onContentExtracted(content, extractedText, entries);
-
-      // Auto-process after a short delay to allow UI to update
-      setTimeout(() => {
-        if (!disabled) {
-          onProcessFile();
-        }
-      }, 500);
-    } catch (err) {
       console.error("Error reading file:", err);
       setError("Failed to read the file. Please try again.");
+      return null;
+    }
+  };
+
+  const movePart = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= parts.length) return;
+
+    const nextParts = [...parts];
+    [nextParts[index], nextParts[target]] = [nextParts[target], nextParts[index]];
+    updateParts(nextParts);
+  };
+
+  const removePart = (index: number) => {
+    updateParts(parts.filter((_, partIndex) => partIndex !== index));
+  };
+
+  const setPartOffset = (index: number, offsetInput: string) => {
+    const nextParts = parts.map((part, i) => (i === index ? { ...part, offsetInput } : part));
+    // Keep an unfinished offset on screen without rebuilding the timeline
+    if (offsetInput.trim() && parseTimeInput(offsetInput) === null) {
+      partsRef.current = nextParts;
+      setParts(nextParts);
+      return;
     }
+    updateParts(nextParts);
   };
 
+  const partOffsets = resolvePartOffsets(
+    parts.map((part) => ({
+      fileName: part.fileName,
+      entries: part.entries,
+      offsetSeconds: parseTimeInput(part.offsetInput),
+    }))
+  );
+  const warnings = parts.flatMap((part) =>
+    part.warnings.map((warning) => ({ ...warning, fileName: part.fileName }))
+  );
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -102,8 +240,7 @@ export function SrtUploader({
     e.preventDefault();
     setIsDragging(false);
 
-    const file = e.dataTransfer.files?.[0];
-    if (file) processFile(file);
+    processFiles(Array.from(e.dataTransfer.files ?? []));
   };
 
   const triggerFileInput = () => {
@@ -122,26 +259,28 @@ export function SrtUploader({
       onDrop={handleDrop}
     >
       <CardContent className="flex flex-col items-center gap-5 p-6">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={getSupportedExtensions().join(",")}
+          onChange={handleFileChange}
+          multiple
+          className="hidden"
+          disabled={disabled}
+        />
+
         {!hasContent && (
           <>
             <div className="text-center mb-2">
               <h2 className="text-xl font-semibold mb-3 text-brand">
-                Upload SRT File
+                Upload Subtitle File
               </h2>
               <p className="text-description/70 text-sm">
-                Drag & drop your .srt file here or click to browse
+                Drag & drop your {getSupportedExtensions().join(", ")} file here or click to browse.
+                Select several files to merge the parts of a split recording
               </p>
             </div>
 
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".srt"
-              onChange={handleFileChange}
-              className="hidden"
-              disabled={disabled}
-            />
-
             <Button
               onClick={triggerFileInput}
               className="w-full max-w-xs"
@@ -164,12 +303,12 @@ export function SrtUploader({
                 <polyline points="17 8 12 3 7 8" />
                 <line x1="12" y1="3" x2="12" y2="15" />
               </svg>
-              Select SRT File
+              Select Subtitle File
             </Button>
           </>
         )}
 
-        {fileName && (
+        {parts.length === 1 && (
           <div className="mt-2 text-sm flex items-center justify-center gap-2 bg-brand/10 p-3 rounded-xl w-full backdrop-blur-sm border border-brand/20">
             <svg
               xmlns="http://www.w3.org/2000/svg"
@@ -194,22 +333,102 @@ export function SrtUploader({
               <Tooltip>
                 <TooltipTrigger asChild>
                   <span className="text-neutral truncate max-w-md cursor-help">
-                    {fileName}
+                    {parts[0].fileName}
                   </span>
                 </TooltipTrigger>
                 <TooltipContent className="max-w-sm break-all">
-                  <p>{fileName}</p>
+                  <p>{parts[0].fileName}</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
+            {parts[0].encoding !== "utf-8" && (
+              <span className="text-description/70 flex-shrink-0">({parts[0].encoding})</span>
+            )}
+          </div>
+        )}
+
+        {parts.length > 1 && (
+          <div className="text-sm bg-brand/10 p-3 rounded-xl w-full backdrop-blur-sm border border-brand/20">
+            <p className="font-medium text-brand mb-2">
+              Merging {parts.length} parts into one video
+            </p>
+            <ol className="space-y-2">
+              {parts.map((part, index) => (
+                <li
+                  key={`${part.fileName}-${index}`}
+                  className="flex flex-wrap items-center gap-2 text-description"
+                >
+                  <span className="font-medium text-brand">{index + 1}.</span>
+                  <span className="text-neutral truncate max-w-[12rem]" title={part.fileName}>
+                    {part.fileName}
+                  </span>
+                  {part.encoding !== "utf-8" && (
+                    <span className="text-description/70">({part.encoding})</span>
+                  )}
+                  <span className="text-description/70">
+                    {part.entries.length} entries, starts at{" "}
+                    {formatTimestamp(secondsToTimestamp(partOffsets[index]))}
+                  </span>
+                  <input
+                    className="w-28 rounded-lg border border-border/80 bg-surface px-2 py-1 text-xs text-foreground outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                    value={part.offsetInput}
+                    onChange={(e) => setPartOffset(index, e.target.value)}
+                    placeholder={index === 0 ? "0:00" : "Auto"}
+                    aria-label={`Start offset for ${part.fileName}`}
+                    disabled={disabled}
+                  />
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => movePart(index, -1)}
+                      disabled={disabled || index === 0}
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => movePart(index, 1)}
+                      disabled={disabled || index === parts.length - 1}
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removePart(index)}
+                      disabled={disabled}
+                      aria-label="Remove part"
+                    >
+                      ✕
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            <p className="text-xs text-description/70 mt-2">
+              Leave the offset empty to start a part where the previous one ends
+            </p>
           </div>
         )}
 
         {hasContent && !disabled && (
           <div className="flex flex-col items-center gap-3 animate-in fade-in duration-300 w-full">
             <p className="text-sm text-description bg-info/10 px-4 py-2 rounded-full border border-info/20">
-              <span className="font-medium">{entriesCount}</span> entries found in the SRT file
+              <span className="font-medium">{entriesCount}</span> entries found in the subtitle{" "}
+              {parts.length > 1 ? "files" : "file"}
             </p>
+            <Button
+              onClick={triggerFileInput}
+              variant="outline"
+              size="sm"
+              disabled={disabled}
+            >
+              Add another part
+            </Button>
             <Button
               onClick={onProcessFile}
               className="w-full max-w-xs"
@@ -236,6 +455,35 @@ export function SrtUploader({
           </div>
         )}
 
+        {hasContent && warnings.length > 0 && (
+          <div className="text-sm bg-warning/10 p-3 rounded-xl border border-warning/20 w-full backdrop-blur-sm">
+            <p className="font-medium text-warning mb-2">
+              Recovered from {warnings.filter((w) => w.action === "fixed").length} formatting
+              issues, skipped {warnings.filter((w) => w.action === "skipped").length} blocks
+            </p>
+            <ul className="space-y-1 max-h-40 overflow-y-auto text-description">
+              {warnings.slice(0, MAX_VISIBLE_WARNINGS).map((warning, index) => (
+                <li key={`${warning.line}-${index}`}>
+                  {parts.length > 1 && <span className="font-medium">{warning.fileName} </span>}
+                  <span className="font-medium">Line {warning.line}</span>
+                  {warning.block > 0 && <span> (cue {warning.block})</span>}:{" "}
+                  {warning.action === "skipped" ? "Skipped — " : "Fixed — "}
+                  {warning.message}
+                </li>
+              ))}
+              {warnings.length > MAX_VISIBLE_WARNINGS && (
+                <li>…and {warnings.length - MAX_VISIBLE_WARNINGS} more</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        {notice && (
+          <p className="text-sm text-warning bg-warning/10 p-3 rounded-xl border border-warning/20 w-full">
+            {notice}
+          </p>
+        )}
+
         {error && (
           <div className="mt-2 text-sm flex items-start gap-2 bg-error/10 p-3 rounded-xl border border-error/20 w-full backdrop-blur-sm">
             <svg
@@ -0,0 +1,268 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { styleProfileSchema } from "@/lib/schemas";
+import { parseChapterList } from "@/lib/timestamp-utils/chapter-list";
+import {
+  DEFAULT_STYLE_PROFILE,
+  type DescriptionCasing,
+  type EmojiPolicy,
+  type StyleProfile,
+} from "@/lib/timestamp-utils/style-profile";
+import { useEffect, useState } from "react";
+
+interface StyleProfileEditorProps {
+  value: StyleProfile | null;
+  onChange: (profile: StyleProfile | null) => void;
+  disabled: boolean;
+}
+
+// Profiles are kept in the browser and sent with each request
+const STORAGE_KEY = "vibestamps:style-profiles";
+
+const CASING_LABELS: Record<DescriptionCasing, string> = {
+  "as-is": "Leave as written",
+  sentence: "Sentence case",
+  title: "Title Case",
+  lower: "lowercase",
+};
+
+const EMOJI_LABELS: Record<EmojiPolicy, string> = {
+  none: "No emoji",
+  allowed: "Allowed",
+  preferred: "One per chapter",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-border/80 bg-surface px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+/**
+ * Read saved profiles, ignoring anything that no longer matches the schema
+ */
+function loadProfiles(): StyleProfile[] {
+  try {
+    const saved: unknown[] = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return saved.flatMap((profile) => {
+      const result = styleProfileSchema.safeParse(profile);
+      return result.success ? [{ ...DEFAULT_STYLE_PROFILE, ...result.data }] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function StyleProfileEditor({ value, onChange, disabled }: StyleProfileEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [profiles, setProfiles] = useState<StyleProfile[]>([]);
+  const [name, setName] = useState("");
+  const [examples, setExamples] = useState("");
+  const [minWords, setMinWords] = useState("");
+  const [maxWords, setMaxWords] = useState("");
+  const [casing, setCasing] = useState<DescriptionCasing>("as-is");
+  const [emoji, setEmoji] = useState<EmojiPolicy>("allowed");
+  const [bannedWords, setBannedWords] = useState("");
+  const [error, setError] = useState("");
+
+  // localStorage is only available after mounting
+  useEffect(() => setProfiles(loadProfiles()), []);
+
+  const editProfile = (profile: StyleProfile | null) => {
+    setName(profile?.name ?? "");
+    setExamples(profile?.examples.join("\n\n") ?? "");
+    setMinWords(profile?.descriptionWords ? String(profile.descriptionWords.min) : "");
+    setMaxWords(profile?.descriptionWords ? String(profile.descriptionWords.max) : "");
+    setCasing(profile?.casing ?? "as-is");
+    setEmoji(profile?.emoji ?? "allowed");
+    setBannedWords(profile?.bannedWords.join(", ") ?? "");
+    setError("");
+  };
+
+  const selectProfile = (profileName: string) => {
+    const profile = profiles.find((saved) => saved.name === profileName) ?? null;
+    editProfile(profile);
+    onChange(profile);
+  };
+
+  const saveProfiles = (updated: StyleProfile[]) => {
+    setProfiles(updated);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  const saveProfile = () => {
+    const result = styleProfileSchema.safeParse({
+      name: name.trim(),
+      // Past videos are separated by blank lines
+      examples: examples
+        .split(/\n\s*\n/)
+        .map((list) => list.trim())
+        .filter((list) => parseChapterList(list).length > 0),
+      descriptionWords:
+        minWords || maxWords
+          ? { min: Number(minWords || 1), max: Number(maxWords || 30) }
+          : undefined,
+      casing,
+      emoji,
+      bannedWords: bannedWords
+        .split(",")
+        .map((word) => word.trim())
+        .filter(Boolean),
+    });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    const profile = { ...DEFAULT_STYLE_PROFILE, ...result.data };
+    saveProfiles([...profiles.filter((saved) => saved.name !== profile.name), profile]);
+    onChange(profile);
+    setError("");
+  };
+
+  const deleteProfile = () => {
+    if (!value) return;
+    saveProfiles(profiles.filter((saved) => saved.name !== value.name));
+    editProfile(null);
+    onChange(null);
+  };
+
+  return (
+    <Card className="w-full max-w-2xl p-4 transition-all duration-300">
+      <CardContent className="flex flex-col gap-4 p-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-base font-semibold text-brand">Channel Style</h3>
+            <p className="text-description/70 text-sm">
+              {value
+                ? `Writing chapters in the ${value.name} style`
+                : "Match the voice of your past chapter lists"}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)}>
+            {isOpen ? "Hide" : "Show"}
+          </Button>
+        </div>
+
+        {isOpen && (
+          <div className="flex flex-col gap-4 animate-in fade-in duration-300">
+            <label className="flex flex-col gap-1 text-sm text-description">
+              Profile
+              <select
+                className={inputClassName}
+                value={value?.name ?? ""}
+                onChange={(e) => selectProfile(e.target.value)}
+                disabled={disabled}
+              >
+                <option value="">No channel style</option>
+                {profiles.map((profile) => (
+                  <option key={profile.name} value={profile.name}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm text-description">
+              Name
+              <input
+                className={inputClassName}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Cooking channel"
+              />
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm text-description">
+              Past chapter lists
+              <textarea
+                className={`${inputClassName} min-h-32 font-mono`}
+                value={examples}
+                onChange={(e) => setExamples(e.target.value)}
+                placeholder={
+                  "00:00 Why this ragu works\n04:10 Browning the meat\n\n00:00 Next video…"
+                }
+              />
+              <span className="text-description/70">
+                Paste chapters from up to 5 past videos, separated by a blank line
+              </span>
+            </label>
+
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <label className="flex flex-col gap-1 text-sm text-description">
+                Min words
+                <input
+                  className={inputClassName}
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={minWords}
+                  onChange={(e) => setMinWords(e.target.value)}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-description">
+                Max words
+                <input
+                  className={inputClassName}
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={maxWords}
+                  onChange={(e) => setMaxWords(e.target.value)}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-description">
+                Casing
+                <select
+                  className={inputClassName}
+                  value={casing}
+                  onChange={(e) => setCasing(e.target.value as DescriptionCasing)}
+                >
+                  {(Object.keys(CASING_LABELS) as DescriptionCasing[]).map((option) => (
+                    <option key={option} value={option}>
+                      {CASING_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-description">
+                Emoji
+                <select
+                  className={inputClassName}
+                  value={emoji}
+                  onChange={(e) => setEmoji(e.target.value as EmojiPolicy)}
+                >
+                  {(Object.keys(EMOJI_LABELS) as EmojiPolicy[]).map((option) => (
+                    <option key={option} value={option}>
+                      {EMOJI_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <label className="flex flex-col gap-1 text-sm text-description">
+              Banned words
+              <input
+                className={inputClassName}
+                value={bannedWords}
+                onChange={(e) => setBannedWords(e.target.value)}
+                placeholder="insane, game-changer"
+              />
+            </label>
+
+            {error && <p className="text-error text-sm">{error}</p>}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={saveProfile} disabled={disabled} size="sm">
+                Save and use
+              </Button>
+              {value && (
+                <Button variant="outline" size="sm" onClick={deleteProfile} disabled={disabled}>
+                  Delete {value.name}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
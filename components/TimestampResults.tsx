@@ -2,265 +2,32 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { timestampResponseSchema } from "@/lib/schemas";
-import { useEffect, useRef, useState } from "react";
-import { z } from "zod";
+import type { GenerationState } from "@/lib/generation-events";
+import { validateChapters } from "@/lib/timestamp-utils/chapter-validator";
 
 interface TimestampResultsProps {
   isLoading: boolean;
-  content: string;
-  entriesCount: number;
+  generation: GenerationState; // Built from the generate API's event stream
+  durationInSeconds: number; // Video length, used to check YouTube chapter rules
 }
 
-type TimestampItem = z.infer<typeof timestampResponseSchema>["keyMoments"][number];
+export function TimestampResults({
+  isLoading,
+  generation,
+  durationInSeconds,
+}: TimestampResultsProps) {
+  const { keyMoments, metadata: resultMetadata } = generation;
 
-interface ParsedTimestamp extends TimestampItem {
-  isNew?: boolean;
-}
-
-// RAY-7: Easing function for smooth progress animation
-// Starts fast, slows down near end for natural feel
-const easeOutCubic = (t: number): number => {
-  return 1 - Math.pow(1 - t, 3);
-};
-
-// RAY-7: Duration estimation based on file characteristics
-// Formula derived from timing analysis in RAY-6
-function estimateDuration(entriesCount: number): number {
-  // Based on 2 data points (RAY-5):
-  // - Average: 12.2ms per entry
-  // - Range: 10.0ms (fast) to 14.6ms (slow)
-  // Using 13ms as conservative middle ground
-  // Note: fileSize showed high correlation with entriesCount, so we use entriesCount as primary factor
-
-  const BASE_TIME = 10000; // 10 seconds base API processing
-  const MS_PER_ENTRY = 13; // 13ms per entry (slightly conservative)
-
-  const estimated = BASE_TIME + entriesCount * MS_PER_ENTRY;
-
-  return Math.max(18000, estimated); // Minimum 18 seconds
-}
-
-export function TimestampResults({ isLoading, content, entriesCount }: TimestampResultsProps) {
-  const [progress, setProgress] = useState(0);
-  const [parsedTimestamps, setParsedTimestamps] = useState<ParsedTimestamp[]>([]);
-  const prevContentRef = useRef<string>("");
-
-  // PHASE 1: Timing instrumentation
-  const streamStartTimeRef = useRef<number>(0);
-  const firstContentTimeRef = useRef<number>(0);
-  const timestampTimingsRef = useRef<Array<{ time: number; count: number }>>([]);
-  const estimatedDurationRef = useRef<number>(0);
-
-  // RAY-7: Smooth progress animation with easeOutCubic
-  useEffect(() => {
-    if (isLoading) {
-      // Initialize timing and estimate duration on first load
-      if (!streamStartTimeRef.current) {
-        streamStartTimeRef.current = Date.now();
-        estimatedDurationRef.current = estimateDuration(entriesCount);
-        console.log("⏱️  Progress bar timing started");
-        console.log(
-          `📊 Estimated duration: ${estimatedDurationRef.current}ms (${(
-            estimatedDurationRef.current / 1000
-          ).toFixed(1)}s)`
-        );
-      }
-
-      // Record first content arrival
-      if (content && !firstContentTimeRef.current) {
-        firstContentTimeRef.current = Date.now();
-        const ttfc = firstContentTimeRef.current - streamStartTimeRef.current;
-        console.log(`📥 Time to First Content (TTFC): ${ttfc}ms`);
-      }
-
-      // Record timestamp arrival timing (for debugging/metrics)
-      const currentCount = parsedTimestamps.length;
-      const elapsed = Date.now() - streamStartTimeRef.current;
-      if (currentCount > 0 && timestampTimingsRef.current.length < 50) {
-        const lastRecorded = timestampTimingsRef.current[timestampTimingsRef.current.length - 1];
-        if (!lastRecorded || lastRecorded.count !== currentCount) {
-          timestampTimingsRef.current.push({ time: elapsed, count: currentCount });
-          console.log(
-            `📊 Timestamp #${currentCount} arrived at ${elapsed}ms (${(
-              currentCount /
-              (elapsed / 1000)
-            ).toFixed(2)} timestamps/sec)`
-          );
-        }
-      }
-
-      // Simple interval-based progress updates - let CSS handle the smoothness
-      // Update every 500ms, shadcn Progress component will animate between states
-      const progressInterval = setInterval(() => {
-        const elapsed = Date.now() - streamStartTimeRef.current;
-        const estimated = estimatedDurationRef.current;
-
-        // Calculate raw progress (0 to 1)
-        const rawProgress = Math.min(elapsed / estimated, 1);
-
-        // Apply easeOutCubic for smooth deceleration
-        const easedProgress = easeOutCubic(rawProgress);
-
-        // Cap at 95% until loading completes
-        const displayProgress = Math.min(easedProgress * 100, 95);
-
-        setProgress(displayProgress);
-      }, 500); // Update every 500ms - CSS transition handles the smooth animation
-
-      // Cleanup interval on unmount or when loading completes
-      return () => clearInterval(progressInterval);
-    } else if (content) {
-      // Loading complete - jump to 100%
-      const totalDuration = Date.now() - streamStartTimeRef.current;
-
-      // Log final timing summary
-      if (streamStartTimeRef.current) {
-        console.log("🎯 PROGRESS BAR TIMING COMPLETE:", {
-          totalDuration: `${totalDuration}ms (${(totalDuration / 1000).toFixed(2)}s)`,
-          estimatedDuration: `${estimatedDurationRef.current}ms (${(
-            estimatedDurationRef.current / 1000
-          ).toFixed(2)}s)`,
-          accuracy: `${((totalDuration / estimatedDurationRef.current) * 100).toFixed(
-            1
-          )}% of estimate`,
-          timestampCount: parsedTimestamps.length,
-          timestampTimings: timestampTimingsRef.current,
-          averageTimePerTimestamp:
-            parsedTimestamps.length > 0
-              ? `${Math.round(totalDuration / parsedTimestamps.length)}ms`
-              : "N/A",
-        });
-
-        // Reset for next run
-        streamStartTimeRef.current = 0;
-        firstContentTimeRef.current = 0;
-        timestampTimingsRef.current = [];
-        estimatedDurationRef.current = 0;
-      }
+  // Chapter rules are checked below, so only the other warnings are listed here
+  const warnings = generation.warnings.filter((warning) => warning.flag !== "chapter-rules");
 
-      setProgress(100);
-    } else {
-      setProgress(0);
-    }
-  }, [isLoading, content, parsedTimestamps.length, entriesCount]);
-
-  // Parse structured JSON content from streamObject
-  useEffect(() => {
-    const parseStructuredContent = (text: string): TimestampItem[] => {
-      if (!text) return [];
-
-      try {
-        // Try to parse as complete JSON first
-        const parsed = JSON.parse(text);
-        const validated = timestampResponseSchema.safeParse(parsed);
-
-        if (validated.success) {
-          return validated.data.keyMoments;
-        }
-
-        // If validation fails, return empty array (partial data)
-        return [];
-      } catch {
-        // If JSON parsing fails, it's likely partial streaming data
-        // Try to extract partial keyMoments array
-        try {
-          // Look for keyMoments array in the partial JSON
-          const keyMomentsMatch = text.match(/"keyMoments"\s*:\s*\[([\s\S]*?)(?:\]|$)/);
-
-          if (keyMomentsMatch) {
-            // Try to parse partial array
-            const partialArray = keyMomentsMatch[1];
-            // Add closing bracket if missing
-            const arrayText = partialArray.endsWith("]") ? partialArray : partialArray + "]";
-
-            try {
-              const items = JSON.parse(`[${arrayText}]`);
-              // Validate each item
-              return items.filter((item: unknown) => {
-                const result = z
-                  .object({
-                    time: z.string(),
-                    description: z.string(),
-                  })
-                  .safeParse(item);
-                return result.success;
-              });
-            } catch {
-              // If that fails, try to extract individual complete objects
-              const objectMatches = partialArray.matchAll(
-                /\{[^}]*"time"\s*:\s*"([^"]+)"[^}]*"description"\s*:\s*"([^"]+)"[^}]*\}/g
-              );
-              const extractedItems: TimestampItem[] = [];
-
-              for (const match of objectMatches) {
-                extractedItems.push({
-                  time: match[1],
-                  description: match[2],
-                });
-              }
-
-              return extractedItems;
-            }
-          }
-        } catch (parseError) {
-          console.error("Error parsing partial JSON:", parseError);
-        }
-
-        return [];
-      }
-    };
-
-    // If there's new content
-    if (content !== prevContentRef.current) {
-      const currentTimestamps = parseStructuredContent(content);
-      const previousTimestamps = parseStructuredContent(prevContentRef.current);
-
-      // Log parsing progress for debugging
-      if (currentTimestamps.length !== previousTimestamps.length) {
-        console.log(
-          `📊 Parsed ${currentTimestamps.length} timestamps (was ${previousTimestamps.length})`
-        );
-        if (currentTimestamps.length > 0) {
-          const lastTimestamp = currentTimestamps[currentTimestamps.length - 1];
-          console.log(`⏱️  Latest timestamp: ${lastTimestamp.time} - ${lastTimestamp.description}`);
-        }
-      }
-
-      // Find new timestamps that weren't in the previous content
-      if (currentTimestamps.length > previousTimestamps.length) {
-        const newTimestamps = currentTimestamps.map((timestamp, index) => {
-          // Mark as new if it's a timestamp we haven't seen before
-          const isNew = index >= previousTimestamps.length;
-          return {
-            ...timestamp,
-            isNew: isNew,
-          };
-        });
-
-        setParsedTimestamps(newTimestamps);
-
-        // After a delay, remove the "new" flag to stop the animation
-        if (newTimestamps.some((t) => t.isNew)) {
-          const timer = setTimeout(() => {
-            setParsedTimestamps((prev) =>
-              prev.map((timestamp) => ({ ...timestamp, isNew: false }))
-            );
-          }, 1000);
-          return () => clearTimeout(timer);
-        }
-      } else if (currentTimestamps.length > 0) {
-        // Update with current timestamps even if count is the same (content might have changed)
-        setParsedTimestamps(currentTimestamps);
-      }
-
-      prevContentRef.current = content;
-    }
-  }, [content]);
+  // YouTube chapter rules the final list still breaks (the API fixes what it can)
+  const chapterViolations =
+    !isLoading && keyMoments.length > 0 ? validateChapters(keyMoments, durationInSeconds) : [];
 
   // Function to copy all timestamps to clipboard
   const copyToClipboard = () => {
-    const timestampsText = parsedTimestamps
+    const timestampsText = keyMoments
       .map((item) => `${item.time} ${item.description}`)
       .join("\n");
     navigator.clipboard.writeText(timestampsText);
@@ -272,7 +39,7 @@ export function TimestampResults({ isLoading, content, entriesCount }: Timestamp
         <CardTitle className="text-xl text-brand">
           Generated Timestamps
         </CardTitle>
-        {content && !isLoading && (
+        {keyMoments.length > 0 && !isLoading && (
           <Button onClick={copyToClipboard} variant="outline" size="sm">
             <svg
               xmlns="http://www.w3.org/2000/svg"
@@ -298,42 +65,66 @@ export function TimestampResults({ isLoading, content, entriesCount }: Timestamp
           <p className="text-sm text-description/70 text-center">
             Analyzing your SRT file and generating timestamps...
           </p>
-          <Progress value={progress} className="h-2" />
+          <Progress value={generation.progress * 100} className="h-2" />
           <div className="flex justify-center">
             <div className="animate-pulse text-description/50 text-sm mt-2">
-              This may take a moment depending on file size
+              {generation.progressMessage}
+              {generation.retries > 0 &&
+                ` (retried ${generation.retries} ${generation.retries === 1 ? "time" : "times"})`}
             </div>
           </div>
         </div>
 
-        {/* Now we show results even while loading if we have some content */}
-        {parsedTimestamps.length > 0 ? (
+        {/* Key moments arrive once generation and all checks are complete */}
+        {keyMoments.length > 0 ? (
           <div className="animate-in fade-in duration-500">
             <div className="mb-4 text-center">
               <p className="text-description text-lg font-medium">🕒 Key Moments</p>
+              {resultMetadata && (
+                <p className="text-xs text-description/70 mt-1">
+                  {resultMetadata.totalMoments} moments · {resultMetadata.durationFormatted} ·{" "}
+                  {resultMetadata.format.toUpperCase()} · prompt {resultMetadata.promptVersion}
+                  {resultMetadata.styleProfile && ` · ${resultMetadata.styleProfile} style`}
+                  {resultMetadata.mode === "chunked" && " · generated in parts"}
+                  {resultMetadata.retryCount > 0 &&
+                    ` · ${resultMetadata.retryCount} failed ${
+                      resultMetadata.retryCount === 1 ? "attempt" : "attempts"
+                    } retried`}
+                </p>
+              )}
             </div>
 
+            {warnings.length > 0 && (
+              <div className="mb-4 text-sm bg-warning/10 p-3 rounded-xl border border-warning/20">
+                <p className="font-medium text-warning mb-1">Worth double-checking</p>
+                <ul className="space-y-1 text-description list-disc pl-5">
+                  {warnings.map((warning, index) => (
+                    <li key={`${warning.flag}-${index}`}>{warning.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {chapterViolations.length > 0 && (
+              <div className="mb-4 text-sm bg-warning/10 p-3 rounded-xl border border-warning/20">
+                <p className="font-medium text-warning mb-1">
+                  YouTube may not show these as chapters
+                </p>
+                <ul className="space-y-1 text-description list-disc pl-5">
+                  {chapterViolations.map((violation, index) => (
+                    <li key={`${violation.code}-${index}`}>{violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="space-y-2 mt-2">
-              {parsedTimestamps.map((timestamp, index) => {
+              {keyMoments.map((timestamp, index) => {
                 return (
                   <div
                     key={`${timestamp.time}-${index}`}
-                    className={`border-b border-border/60 py-3 last:border-0 flex items-start justify-between group hover:bg-brand/10 rounded-xl px-4 transition-colors ${
-                      timestamp.isNew
-                        ? "animate-in slide-in-from-right-5 fade-in duration-300 scale-in-100"
-                        : ""
-                    }`}
-                    style={
-                      timestamp.isNew
-                        ? {
-                            animationDelay: `${index * 100}ms`,
-                            backgroundColor: timestamp.isNew
-                              ? "rgba(16,185,129,0.07)"
-                              : "transparent",
-                            transition: "background-color 1s ease-out",
-                          }
-                        : undefined
-                    }
+                    className="border-b border-border/60 py-3 last:border-0 flex items-start justify-between group hover:bg-brand/10 rounded-xl px-4 transition-colors animate-in slide-in-from-right-5 fade-in duration-300 fill-mode-both"
+                    style={{ animationDelay: `${Math.min(index, 20) * 50}ms` }}
                   >
                     <div className="flex-1">
                       <div className="flex items-baseline">
@@ -343,6 +134,14 @@ export function TimestampResults({ isLoading, content, entriesCount }: Timestamp
                         <span className="text-base text-foreground">
                           {timestamp.description}
                         </span>
+                        {timestamp.ungrounded && (
+                          <span
+                            className="ml-2 text-xs text-warning bg-warning/10 border border-warning/20 rounded-full px-2 py-0.5 whitespace-nowrap"
+                            title="This description doesn't closely match the captions at this time - double-check it"
+                          >
+                            Unverified
+                          </span>
+                        )}
                       </div>
                     </div>
                     <TooltipProvider>
@@ -387,8 +186,7 @@ export function TimestampResults({ isLoading, content, entriesCount }: Timestamp
             </div>
           </div>
         ) : (
-          !isLoading &&
-          !content && (
+          !isLoading && (
             <div className="flex flex-col items-center justify-center py-12 text-center">
               <div className="rounded-full bg-brand/10 p-6 mb-6 border border-brand/20">
                 <svg
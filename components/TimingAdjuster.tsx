@@ -0,0 +1,238 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { formatTimestamp, serializeSrt, SrtEntry } from "@/lib/srt-parser";
+import {
+  COMMON_FRAME_RATES,
+  convertFrameRate,
+  parseTimeInput,
+  resyncEntries,
+  shiftEntries,
+} from "@/lib/subtitle-timing";
+import { useState } from "react";
+
+interface TimingAdjusterProps {
+  entries: SrtEntry[];
+  fileName: string;
+  onApply: (entries: SrtEntry[]) => void;
+  disabled: boolean;
+}
+
+type TimingMode = "shift" | "resync" | "fps";
+
+const MODE_LABELS: Record<TimingMode, string> = {
+  shift: "Offset",
+  resync: "Two-point resync",
+  fps: "Frame rate",
+};
+
+const inputClassName =
+  "w-full rounded-xl border border-border/80 bg-surface px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+/**
+ * Download text content as a file in the browser
+ */
+function downloadTextFile(content: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/plain;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function TimingAdjuster({ entries, fileName, onApply, disabled }: TimingAdjusterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<TimingMode>("shift");
+  const [offset, setOffset] = useState("0");
+  const [firstCue, setFirstCue] = useState("1");
+  const [firstTarget, setFirstTarget] = useState("");
+  const [secondCue, setSecondCue] = useState(String(entries.length));
+  const [secondTarget, setSecondTarget] = useState("");
+  const [fromFps, setFromFps] = useState(25);
+  const [toFps, setToFps] = useState(23.976);
+  const [status, setStatus] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const applyTransform = () => {
+    setError("");
+    setStatus("");
+
+    try {
+      let adjusted: SrtEntry[];
+      let summary: string;
+
+      if (mode === "shift") {
+        const seconds = parseTimeInput(offset);
+        if (seconds === null) throw new Error("Enter the offset in seconds or as HH:MM:SS");
+        adjusted = shiftEntries(entries, seconds);
+        summary = `Shifted captions by ${seconds >= 0 ? "+" : ""}${seconds}s`;
+      } else if (mode === "resync") {
+        const first = parseTimeInput(firstTarget);
+        const second = parseTimeInput(secondTarget);
+        if (first === null || second === null) {
+          throw new Error("Enter both target times in seconds or as HH:MM:SS");
+        }
+        adjusted = resyncEntries(
+          entries,
+          { entryIndex: parseInt(firstCue, 10) - 1, targetSeconds: first },
+          { entryIndex: parseInt(secondCue, 10) - 1, targetSeconds: second }
+        );
+        summary = `Resynced cue ${firstCue} and cue ${secondCue}`;
+      } else {
+        adjusted = convertFrameRate(entries, fromFps, toFps);
+        summary = `Converted timing from ${fromFps}fps to ${toFps}fps`;
+      }
+
+      if (adjusted.length === 0) throw new Error("No captions remain after this adjustment");
+
+      onApply(adjusted);
+      setStatus(
+        `${summary}. Captions now run ${formatTimestamp(adjusted[0].startTime)} to ${formatTimestamp(adjusted[adjusted.length - 1].endTime)}.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not adjust timing");
+    }
+  };
+
+  const downloadCaptions = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, "") || "captions";
+    downloadTextFile(serializeSrt(entries), `${baseName}.srt`);
+  };
+
+  const describeCue = (cueNumber: string) => {
+    const entry = entries[parseInt(cueNumber, 10) - 1];
+    return entry
+      ? `${formatTimestamp(entry.startTime)} “${entry.plainText.slice(0, 40)}”`
+      : "No such cue";
+  };
+
+  return (
+    <Card className="w-full max-w-2xl p-4 transition-all duration-300">
+      <CardContent className="flex flex-col gap-4 p-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-base font-semibold text-brand">Adjust Timing</h3>
+            <p className="text-description/70 text-sm">
+              Fix offsets or drift so timestamps line up with the final video
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsOpen(!isOpen)}>
+            {isOpen ? "Hide" : "Show"}
+          </Button>
+        </div>
+
+        {isOpen && (
+          <div className="flex flex-col gap-4 animate-in fade-in duration-300">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(MODE_LABELS) as TimingMode[]).map((option) => (
+                <Button
+                  key={option}
+                  variant={mode === option ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setMode(option)}
+                >
+                  {MODE_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+
+            {mode === "shift" && (
+              <label className="flex flex-col gap-1 text-sm text-description">
+                Offset (seconds or HH:MM:SS, negative moves captions earlier)
+                <input
+                  className={inputClassName}
+                  value={offset}
+                  onChange={(e) => setOffset(e.target.value)}
+                  placeholder="-12.5"
+                />
+              </label>
+            )}
+
+            {mode === "resync" && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-description">
+                {[
+                  {
+                    label: "Cue A",
+                    cue: firstCue,
+                    setCue: setFirstCue,
+                    target: firstTarget,
+                    setTarget: setFirstTarget,
+                  },
+                  {
+                    label: "Cue B",
+                    cue: secondCue,
+                    setCue: setSecondCue,
+                    target: secondTarget,
+                    setTarget: setSecondTarget,
+                  },
+                ].map((point) => (
+                  <div key={point.label} className="flex flex-col gap-1">
+                    <label className="flex flex-col gap-1">
+                      {point.label} number
+                      <input
+                        className={inputClassName}
+                        type="number"
+                        min={1}
+                        max={entries.length}
+                        value={point.cue}
+                        onChange={(e) => point.setCue(e.target.value)}
+                      />
+                    </label>
+                    <span className="text-xs text-description/70 truncate">
+                      {describeCue(point.cue)}
+                    </span>
+                    <label className="flex flex-col gap-1">
+                      Should start at
+                      <input
+                        className={inputClassName}
+                        value={point.target}
+                        onChange={(e) => point.setTarget(e.target.value)}
+                        placeholder="00:01:05.250"
+                      />
+                    </label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {mode === "fps" && (
+              <div className="grid grid-cols-2 gap-3 text-sm text-description">
+                {[
+                  { label: "Captions timed at", value: fromFps, setValue: setFromFps },
+                  { label: "Final video", value: toFps, setValue: setToFps },
+                ].map((rate) => (
+                  <label key={rate.label} className="flex flex-col gap-1">
+                    {rate.label}
+                    <select
+                      className={inputClassName}
+                      value={rate.value}
+                      onChange={(e) => rate.setValue(parseFloat(e.target.value))}
+                    >
+                      {COMMON_FRAME_RATES.map((fps) => (
+                        <option key={fps} value={fps}>
+                          {fps} fps
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={applyTransform} disabled={disabled} size="sm">
+                Apply
+              </Button>
+              <Button onClick={downloadCaptions} variant="outline" size="sm" disabled={disabled}>
+                Download .srt
+              </Button>
+            </div>
+
+            {status && <p className="text-sm text-info">{status}</p>}
+            {error && <p className="text-sm text-error">{error}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
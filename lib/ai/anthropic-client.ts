@@ -0,0 +1,22 @@
+/**
+ * Anthropic client for timestamp generation, calling the Anthropic API directly
+ * Reads ANTHROPIC_API_KEY unless an API key is passed in
+ */
+
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { StreamingModelClient, type AIConfig } from "@/lib/ai/model-client";
+
+// Claude rejects temperature and topP together, so only temperature is set
+export const DEFAULT_ANTHROPIC_CONFIG: AIConfig = {
+  model: "claude-sonnet-4-5",
+  temperature: 1,
+  maxOutputTokens: 64000,
+};
+
+export class AnthropicClient extends StreamingModelClient {
+  readonly provider = "anthropic";
+
+  constructor(config: AIConfig = DEFAULT_ANTHROPIC_CONFIG, apiKey?: string) {
+    super(config, createAnthropic({ apiKey })(config.model));
+  }
+}
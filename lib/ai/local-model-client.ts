@@ -0,0 +1,62 @@
+/**
+ * Client for a local OpenAI-compatible server (Ollama, llama.cpp, LM Studio, vLLM)
+ * Transcripts never leave the machine running the server
+ *
+ * Most local models lack native structured outputs, so by default the prompt asks for JSON
+ * matching the schema, the server is put in JSON mode, and the reply is validated against
+ * timestampResponseSchema (with the shared JSON repair) like every other client
+ */
+
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { z } from "zod";
+import { StreamingModelClient, type AIConfig } from "@/lib/ai/model-client";
+import { timestampResponseSchema } from "@/lib/schemas";
+
+export interface LocalModelSettings {
+  baseURL: string; // e.g. "http://localhost:11434/v1" for Ollama
+  apiKey?: string; // Only for servers started with an API key
+  structuredOutputs?: boolean; // Server enforces the JSON schema itself (llama.cpp, recent Ollama)
+}
+
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+export const DEFAULT_LOCAL_MODEL_CONFIG: AIConfig = {
+  model: "llama3.1",
+  temperature: 0.7,
+  maxOutputTokens: 8192,
+};
+
+// Appended to the prompt when the server can't enforce the schema
+const JSON_OUTPUT_INSTRUCTIONS = `
+<output_format>
+Respond with a single JSON object and nothing else: no markdown code fences, no commentary.
+It must match this JSON schema:
+${JSON.stringify(z.toJSONSchema(timestampResponseSchema))}
+
+Example:
+{"keyMoments":[{"time":"00:00","description":"Intro and agenda"},{"time":"07:45","description":"Setting up the project"}]}
+</output_format>`;
+
+export class LocalModelClient extends StreamingModelClient {
+  readonly provider = "local";
+  private structuredOutputs: boolean;
+
+  constructor(settings: LocalModelSettings, config: AIConfig = DEFAULT_LOCAL_MODEL_CONFIG) {
+    const structuredOutputs = settings.structuredOutputs ?? false;
+    const provider = createOpenAICompatible({
+      name: "local",
+      baseURL: settings.baseURL,
+      apiKey: settings.apiKey,
+      supportsStructuredOutputs: structuredOutputs,
+    });
+    super(config, provider.chatModel(config.model));
+    this.structuredOutputs = structuredOutputs;
+  }
+
+  /**
+   * Spell out the JSON format for models that can't be given the schema natively
+   */
+  protected buildPrompt(prompt: string): string {
+    return this.structuredOutputs ? prompt : `${prompt}\n${JSON_OUTPUT_INSTRUCTIONS}`;
+  }
+}
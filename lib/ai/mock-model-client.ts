@@ -0,0 +1,171 @@
+/**
+ * Deterministic, offline model client for development and testing
+ * Replays scripted streamed responses through the real streamObject pipeline, so validation,
+ * JSON repair, NoObjectGeneratedError and retries behave exactly as with a live model
+ */
+
+import { simulateReadableStream, type LanguageModel } from "ai";
+import { StreamingModelClient, type AIConfig, type RecordedResponse } from "@/lib/ai/model-client";
+
+// One scripted model call; calls past the end of a script repeat its last step
+// A response is streamed as-is, so it may be malformed or truncated, and an error fails the call
+// before streaming, like a network error. Echo builds valid moments from the cues in the prompt
+export type MockStep = RecordedResponse | { type: "echo" };
+
+export type MockScenario = "echo" | "flaky" | "malformed" | "truncated" | "no-object";
+
+// Responses that break in the ways real models do
+const MALFORMED_RESPONSE = '{"keyMoments": [{"time": "00:00", "description": "Intro",}]';
+const TRUNCATED_RESPONSE = '{"keyMoments":[{"time":"00:00","description":"Introduction and';
+const WRONG_SHAPE_RESPONSE = '{"chapters":[{"start":"00:00","title":"Intro"}]}';
+
+export const MOCK_SCENARIOS: Record<MockScenario, MockStep[]> = {
+  echo: [{ type: "echo" }],
+  flaky: [{ type: "error", message: "Mock network error" }, { type: "echo" }],
+  malformed: [{ type: "response", text: MALFORMED_RESPONSE }, { type: "echo" }],
+  truncated: [{ type: "response", text: TRUNCATED_RESPONSE }, { type: "echo" }],
+  "no-object": [{ type: "response", text: WRONG_SHAPE_RESPONSE }],
+};
+
+export const DEFAULT_MOCK_CONFIG: AIConfig = {
+  model: "mock-echo",
+  temperature: 0,
+  maxOutputTokens: 65536,
+};
+
+export interface MockModelOptions {
+  chunkSize?: number; // Characters per streamed chunk
+  chunkDelayMs?: number; // Delay between chunks, to watch the streaming UI
+}
+
+// Echo mode spacing between picked cues, and words kept from each cue
+const ECHO_INTERVAL_SECONDS = 5 * 60;
+const ECHO_DESCRIPTION_WORDS = 8;
+
+// Cue starts in the prompt: SRT/VTT arrows, SBV ranges, or "[HH:MM:SS - ...] text" transcripts
+const CUE_START_PATTERN =
+  /^(?:(\d{1,2}:\d{2}:\d{2}|\d{2}:\d{2})[,.]\d{3}\s*-->|(\d{1,2}:\d{2}:\d{2})\.\d{3},\d|\[(\d{2}:\d{2}:\d{2})[^\]]*\]\s*(.+))/;
+
+/**
+ * Seconds for an H:MM:SS or MM:SS time
+ */
+function clockToSeconds(time: string): number {
+  return time
+    .split(":")
+    .map(Number)
+    .reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Build a valid response from the transcript in a prompt: one cue about every five minutes,
+ * described by its own opening words
+ */
+export function buildEchoResponse(prompt: string): string {
+  const lines = prompt.split("\n");
+  const cues: Array<{ seconds: number; text: string }> = [];
+
+  lines.forEach((line, index) => {
+    const match = line.trim().match(CUE_START_PATTERN);
+    if (!match) return;
+
+    const time = match[1] ?? match[2] ?? match[3];
+    const text = match[4] ?? lines[index + 1]?.trim() ?? "";
+    if (text) cues.push({ seconds: clockToSeconds(time), text });
+  });
+
+  const keyMoments: Array<{ time: string; description: string }> = [];
+  let nextSeconds = 0;
+  for (const cue of cues) {
+    if (keyMoments.length > 0 && cue.seconds < nextSeconds) continue;
+
+    const description = cue.text
+      .replace(/<[^>]+>/g, "")
+      .split(/\s+/)
+      .slice(0, ECHO_DESCRIPTION_WORDS)
+      .join(" ")
+      .slice(0, 150);
+    if (description.length < 3) continue;
+
+    const hours = Math.floor(cue.seconds / 3600);
+    const minutes = Math.floor((cue.seconds % 3600) / 60);
+    const seconds = Math.floor(cue.seconds % 60);
+    keyMoments.push({
+      time: [hours, minutes, seconds].map((part) => String(part).padStart(2, "0")).join(":"),
+      description,
+    });
+    nextSeconds = cue.seconds + ECHO_INTERVAL_SECONDS;
+  }
+
+  return JSON.stringify({ keyMoments });
+}
+
+export class MockModelClient extends StreamingModelClient {
+  readonly provider = "mock";
+  private callCount = 0;
+
+  constructor(
+    script: MockStep[] = MOCK_SCENARIOS.echo,
+    options: MockModelOptions = {},
+    config: AIConfig = DEFAULT_MOCK_CONFIG
+  ) {
+    const { chunkSize = 40, chunkDelayMs = 0 } = options;
+
+    const model: Exclude<LanguageModel, string> = {
+      specificationVersion: "v2",
+      provider: "mock",
+      modelId: config.model,
+      supportedUrls: {},
+      doGenerate: async () => {
+        throw new Error("The mock model only supports streaming");
+      },
+      doStream: async ({ prompt }) => {
+        const step = script[Math.min(this.callCount++, script.length - 1)];
+        if (step.type === "error") throw new Error(step.message);
+
+        const promptText = prompt
+          .flatMap((message) =>
+            typeof message.content === "string"
+              ? [message.content]
+              : message.content.flatMap((part) => (part.type === "text" ? [part.text] : []))
+          )
+          .join("\n");
+        const text = step.type === "echo" ? buildEchoResponse(promptText) : step.text;
+
+        const deltas: string[] = [];
+        for (let index = 0; index < text.length; index += chunkSize) {
+          deltas.push(text.slice(index, index + chunkSize));
+        }
+
+        return {
+          stream: simulateReadableStream({
+            chunkDelayInMs: chunkDelayMs,
+            chunks: [
+              { type: "stream-start" as const, warnings: [] },
+              { type: "text-start" as const, id: "mock" },
+              ...deltas.map((delta) => ({ type: "text-delta" as const, id: "mock", delta })),
+              { type: "text-end" as const, id: "mock" },
+              {
+                type: "finish" as const,
+                finishReason: "stop" as const,
+                usage: {
+                  inputTokens: Math.ceil(promptText.length / 4),
+                  outputTokens: Math.ceil(text.length / 4),
+                  totalTokens: Math.ceil((promptText.length + text.length) / 4),
+                },
+              },
+            ],
+          }),
+        };
+      },
+    };
+
+    super(config, model);
+  }
+
+  /**
+   * Model calls made so far, including failed ones
+   */
+  get calls(): number {
+    return this.callCount;
+  }
+}
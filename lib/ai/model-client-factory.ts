@@ -0,0 +1,249 @@
+/**
+ * Model client selection
+ * Server configuration picks the default provider and model; requests may override either
+ *
+ * Environment:
+ * - TIMESTAMP_MODEL_PROVIDER: "gateway" (default), "openai-compatible", "anthropic" or "local"
+ * - TIMESTAMP_MODEL: model id for that provider (each provider has its own default)
+ * - TIMESTAMP_MODEL_ALLOWED_PROVIDERS: comma-separated providers a request may switch to
+ *   (defaults to the hosted providers, or none when "local" is configured)
+ * - OPENAI_COMPATIBLE_BASE_URL / OPENAI_COMPATIBLE_API_KEY: endpoint for "openai-compatible"
+ * - ANTHROPIC_API_KEY: key for "anthropic"
+ * - LOCAL_MODEL_BASE_URL / LOCAL_MODEL_API_KEY: local server for "local" (defaults to Ollama)
+ * - LOCAL_MODEL_STRUCTURED_OUTPUTS: "true" when the local server enforces JSON schemas itself
+ * - MOCK_MODEL_SCENARIO / MOCK_MODEL_CHUNK_DELAY_MS: scripted offline responses for "mock"
+ * - MOCK_MODEL_FIXTURE: recorded responses for "mock" to replay instead of a scenario
+ * - TIMESTAMP_MODEL_RECORD: file to record each request's raw model responses to, as a fixture
+ *
+ * A request can always name the configured provider, and only switch to an allowed one
+ * "mock" can only be configured, never requested
+ */
+
+import { AnthropicClient, DEFAULT_ANTHROPIC_CONFIG } from "@/lib/ai/anthropic-client";
+import { DEFAULT_AI_CONFIG, GeminiClient } from "@/lib/ai/gemini-client";
+import {
+  DEFAULT_LOCAL_BASE_URL,
+  DEFAULT_LOCAL_MODEL_CONFIG,
+  LocalModelClient,
+} from "@/lib/ai/local-model-client";
+import {
+  DEFAULT_MOCK_CONFIG,
+  MOCK_SCENARIOS,
+  MockModelClient,
+  type MockScenario,
+} from "@/lib/ai/mock-model-client";
+import type {
+  ModelProvider,
+  StreamingModelClient,
+  TimestampModelClient,
+} from "@/lib/ai/model-client";
+import { createFixtureRecorder, loadModelFixture } from "@/lib/ai/model-fixtures";
+import {
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  OpenAICompatibleClient,
+} from "@/lib/ai/openai-compatible-client";
+
+export const MODEL_PROVIDERS: ModelProvider[] = [
+  "gateway",
+  "openai-compatible",
+  "anthropic",
+  "local",
+  "mock",
+];
+
+export type RequestModelProvider = Exclude<ModelProvider, "mock">;
+
+// Providers a request may switch to when TIMESTAMP_MODEL_ALLOWED_PROVIDERS is unset
+const DEFAULT_REQUEST_PROVIDERS: RequestModelProvider[] = [
+  "gateway",
+  "openai-compatible",
+  "anthropic",
+];
+
+export interface ModelSelection {
+  provider?: RequestModelProvider;
+  model?: string;
+}
+
+/**
+ * Error for a provider that is unknown or missing its server-side configuration
+ * A 500 when the server's own configuration is broken, a 400 when a request selected a provider
+ * this server can't serve
+ */
+export class ModelConfigurationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 500
+  ) {
+    super(message);
+    this.name = "ModelConfigurationError";
+  }
+}
+
+/**
+ * Check a provider name from configuration or a request
+ */
+function isModelProvider(value: string): value is ModelProvider {
+  return (MODEL_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Default model selection from environment variables
+ */
+export function getConfiguredModelSelection(
+  env: Record<string, string | undefined> = process.env
+): { provider?: ModelProvider; model?: string } {
+  const provider = env.TIMESTAMP_MODEL_PROVIDER?.trim() || undefined;
+  if (provider !== undefined && !isModelProvider(provider)) {
+    throw new ModelConfigurationError(
+      `Unknown TIMESTAMP_MODEL_PROVIDER "${provider}". Use one of: ${MODEL_PROVIDERS.join(", ")}`
+    );
+  }
+
+  return { provider, model: env.TIMESTAMP_MODEL?.trim() || undefined };
+}
+
+/**
+ * Providers a request may switch to, from TIMESTAMP_MODEL_ALLOWED_PROVIDERS
+ * A server configured for a local model keeps transcripts on it unless the list says otherwise
+ */
+export function getAllowedRequestProviders(
+  env: Record<string, string | undefined> = process.env
+): RequestModelProvider[] {
+  const allowed = env.TIMESTAMP_MODEL_ALLOWED_PROVIDERS?.trim();
+  if (!allowed) {
+    return getConfiguredModelSelection(env).provider === "local" ? [] : DEFAULT_REQUEST_PROVIDERS;
+  }
+
+  return allowed
+    .split(",")
+    .map((provider) => provider.trim())
+    .filter(Boolean)
+    .map((provider) => {
+      if (!isModelProvider(provider) || provider === "mock") {
+        throw new ModelConfigurationError(
+          `TIMESTAMP_MODEL_ALLOWED_PROVIDERS can't include "${provider}". ` +
+            `Use any of: ${[...DEFAULT_REQUEST_PROVIDERS, "local"].join(", ")}`
+        );
+      }
+      return provider;
+    });
+}
+
+/**
+ * Create the model client for a request
+ * A requested model id replaces the configured one; a requested provider without a model id
+ * uses that provider's default model
+ */
+export function createModelClient(
+  selection: ModelSelection = {},
+  env: Record<string, string | undefined> = process.env
+): TimestampModelClient {
+  const configured = getConfiguredModelSelection(env);
+  const configuredProvider = configured.provider ?? "gateway";
+  if (
+    selection.provider &&
+    selection.provider !== configuredProvider &&
+    !getAllowedRequestProviders(env).includes(selection.provider)
+  ) {
+    throw new ModelConfigurationError(
+      `This server doesn't allow requests to use the ${selection.provider} provider`,
+      400
+    );
+  }
+
+  const provider: ModelProvider = selection.provider ?? configuredProvider;
+  const model = selection.model ?? (provider === configuredProvider ? configured.model : undefined);
+
+  let client: StreamingModelClient;
+  try {
+    client = createProviderClient(provider, model, env);
+  } catch (error) {
+    // An allowed provider the server isn't set up for: the request can pick another one
+    if (error instanceof ModelConfigurationError && provider !== configuredProvider) {
+      throw new ModelConfigurationError(error.message, 400);
+    }
+    throw error;
+  }
+  if (env.TIMESTAMP_MODEL_RECORD) {
+    client.recordResponse = createFixtureRecorder(
+      env.TIMESTAMP_MODEL_RECORD,
+      `${client.provider}:${client.modelId}`
+    );
+  }
+  return client;
+}
+
+/**
+ * Create the client for a provider, checking the settings it needs
+ */
+function createProviderClient(
+  provider: ModelProvider,
+  model: string | undefined,
+  env: Record<string, string | undefined>
+): StreamingModelClient {
+  switch (provider) {
+    case "gateway":
+      return new GeminiClient({ ...DEFAULT_AI_CONFIG, ...(model && { model }) });
+
+    case "anthropic":
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new ModelConfigurationError("The anthropic provider needs ANTHROPIC_API_KEY");
+      }
+      return new AnthropicClient(
+        { ...DEFAULT_ANTHROPIC_CONFIG, ...(model && { model }) },
+        env.ANTHROPIC_API_KEY
+      );
+
+    case "openai-compatible":
+      if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new ModelConfigurationError(
+          "The openai-compatible provider needs OPENAI_COMPATIBLE_BASE_URL"
+        );
+      }
+      return new OpenAICompatibleClient(
+        { baseURL: env.OPENAI_COMPATIBLE_BASE_URL, apiKey: env.OPENAI_COMPATIBLE_API_KEY },
+        { ...DEFAULT_OPENAI_COMPATIBLE_CONFIG, ...(model && { model }) }
+      );
+
+    case "local":
+      return new LocalModelClient(
+        {
+          baseURL: env.LOCAL_MODEL_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+          apiKey: env.LOCAL_MODEL_API_KEY,
+          structuredOutputs: env.LOCAL_MODEL_STRUCTURED_OUTPUTS === "true",
+        },
+        { ...DEFAULT_LOCAL_MODEL_CONFIG, ...(model && { model }) }
+      );
+
+    case "mock": {
+      const chunkDelayMs = Number(env.MOCK_MODEL_CHUNK_DELAY_MS) || 0;
+      if (env.MOCK_MODEL_FIXTURE) {
+        let fixture;
+        try {
+          fixture = loadModelFixture(env.MOCK_MODEL_FIXTURE);
+        } catch (error) {
+          throw new ModelConfigurationError((error as Error).message);
+        }
+        return new MockModelClient(
+          fixture.steps,
+          { chunkDelayMs },
+          { ...DEFAULT_MOCK_CONFIG, model: `fixture-${fixture.recordedFrom}` }
+        );
+      }
+
+      const scenario = (env.MOCK_MODEL_SCENARIO || "echo") as MockScenario;
+      if (!Object.hasOwn(MOCK_SCENARIOS, scenario)) {
+        throw new ModelConfigurationError(
+          `Unknown MOCK_MODEL_SCENARIO "${scenario}". ` +
+            `Use one of: ${Object.keys(MOCK_SCENARIOS).join(", ")}`
+        );
+      }
+      return new MockModelClient(
+        MOCK_SCENARIOS[scenario],
+        { chunkDelayMs },
+        { ...DEFAULT_MOCK_CONFIG, model: `mock-${scenario}` }
+      );
+    }
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Provider-agnostic model client for timestamp generation
+ * Shared streaming, validation, normalization and JSON repair; providers only supply the model
+ */
+
+import {
+  NoObjectGeneratedError,
+  streamObject,
+  type DeepPartial,
+  type JSONValue,
+  type LanguageModel,
+} from "ai";
+import { timestampResponseSchema } from "@/lib/schemas";
+import {
+  countNormalizationChanges,
+  normalizeTimestampResponse,
+  TimestampResponse,
+} from "@/lib/timestamp-utils/normalizer";
+
+// "gateway" routes through the Vercel AI Gateway, the others call the provider directly;
+// "local" is a self-hosted OpenAI-compatible server, so transcripts stay on-premises;
+// "mock" replays scripted responses offline
+export type ModelProvider = "gateway" | "openai-compatible" | "anthropic" | "local" | "mock";
+
+// One model call as saved in a fixture: the raw response text, or the failure before streaming
+export type RecordedResponse =
+  | { type: "response"; text: string }
+  | { type: "error"; message: string };
+
+export interface AIConfig {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  topP?: number; // Omitted for providers that reject temperature and topP together
+}
+
+export interface StreamCallbacks {
+  onError?: (error: Error) => void;
+  onFinish?: (object: TimestampResponse | null, error: Error | null) => void;
+  onRepair?: (text: string, error: Error) => Promise<string>;
+  onNormalize?: (changedCount: number) => void;
+  onPartialObject?: (partial: DeepPartial<TimestampResponse>) => void;
+}
+
+/**
+ * Default repair for malformed JSON output
+ * Strips markdown code fences and closes unterminated objects and arrays
+ */
+export function repairTimestampJson(text: string): string {
+  let repaired = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  // Add missing closing braces if needed
+  const openBraces = (repaired.match(/\{/g) || []).length;
+  const closeBraces = (repaired.match(/\}/g) || []).length;
+  if (openBraces > closeBraces) {
+    repaired += "}".repeat(openBraces - closeBraces);
+  }
+
+  // Add missing closing brackets if needed
+  const openBrackets = (repaired.match(/\[/g) || []).length;
+  const closeBrackets = (repaired.match(/\]/g) || []).length;
+  if (openBrackets > closeBrackets) {
+    repaired += "]".repeat(openBrackets - closeBrackets);
+  }
+
+  return repaired;
+}
+
+/**
+ * What TimestampGenerationService needs from a model
+ */
+export interface TimestampModelClient {
+  readonly provider: ModelProvider;
+  readonly modelId: string;
+  generateObject(
+    prompt: string,
+    isLongContent: boolean,
+    callbacks?: StreamCallbacks
+  ): Promise<TimestampResponse>;
+}
+
+/**
+ * Base client streaming a validated TimestampResponse from any AI SDK language model
+ */
+export abstract class StreamingModelClient implements TimestampModelClient {
+  abstract readonly provider: ModelProvider;
+  protected model: LanguageModel;
+  protected config: AIConfig;
+  // Receives every raw response while responses are being recorded as a fixture
+  recordResponse?: (response: RecordedResponse) => void;
+
+  constructor(config: AIConfig, model: LanguageModel) {
+    this.config = config;
+    this.model = model;
+  }
+
+  get modelId(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Stream AI-generated timestamps with validation and normalization
+   */
+  async streamObject(prompt: string, isLongContent: boolean, callbacks?: StreamCallbacks) {
+    const result = streamObject({
+      model: this.model,
+      schema: timestampResponseSchema,
+      prompt: this.buildPrompt(prompt),
+      temperature: this.config.temperature,
+      maxOutputTokens: this.config.maxOutputTokens,
+      topP: this.config.topP,
+      providerOptions: this.getProviderOptions(),
+      // Handle streaming errors
+      onError({ error }) {
+        console.error("Stream error:", error);
+        callbacks?.onError?.(error as Error);
+      },
+      // Validate and normalize final object
+      onFinish({ object, error }) {
+        if (error) {
+          console.error("Validation error:", error);
+          callbacks?.onFinish?.(null, error as Error);
+        } else if (object) {
+          // Normalize timestamp format based on video duration
+          callbacks?.onNormalize?.(countNormalizationChanges(object, isLongContent));
+          const normalizedObject = normalizeTimestampResponse(object, isLongContent);
+
+          // Update the object with normalized timestamps
+          object.keyMoments = normalizedObject.keyMoments;
+
+          const timestampCount = object.keyMoments?.length || 0;
+          console.log(`✅ Successfully generated ${timestampCount} timestamps`);
+
+          // Log the time range covered
+          if (object.keyMoments && object.keyMoments.length > 0) {
+            const firstTime = object.keyMoments[0].time;
+            const lastTime = object.keyMoments[object.keyMoments.length - 1].time;
+            console.log(`⏱️  Time range: ${firstTime} to ${lastTime}`);
+          }
+
+          callbacks?.onFinish?.(object, null);
+        }
+      },
+      // Attempt to repair malformed JSON
+      experimental_repairText: async ({ text, error }) => {
+        console.log("Attempting to repair malformed JSON:", error.message);
+
+        if (callbacks?.onRepair) {
+          return callbacks.onRepair(text, error as Error);
+        }
+
+        const repaired = repairTimestampJson(text);
+        console.log("Repaired JSON:", repaired);
+        return repaired;
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Generate timestamps and wait for the final validated, normalized object
+   * The stream is drained (reporting partial objects) because the object only resolves
+   * once it has been read to the end; a call that fails before streaming only reports an
+   * error part and never settles the object, so stream errors are rethrown here
+   * The raw text is collected along the way so it can be recorded before it is validated
+   */
+  async generateObject(
+    prompt: string,
+    isLongContent: boolean,
+    callbacks?: StreamCallbacks
+  ): Promise<TimestampResponse> {
+    const result = await this.streamObject(prompt, isLongContent, callbacks);
+
+    let streamError: unknown;
+    let text = "";
+    for await (const part of result.fullStream) {
+      if (part.type === "object") {
+        callbacks?.onPartialObject?.(part.object);
+      } else if (part.type === "text-delta") {
+        text += part.textDelta;
+      } else if (part.type === "error") {
+        streamError ??= part.error;
+      }
+    }
+
+    this.recordResponse?.(
+      streamError && !text
+        ? { type: "error", message: streamError instanceof Error ? streamError.message : "Error" }
+        : { type: "response", text }
+    );
+    if (streamError) throw streamError;
+    return result.object;
+  }
+
+  /**
+   * Final prompt sent to the model; clients without structured outputs add JSON instructions
+   */
+  protected buildPrompt(prompt: string): string {
+    return prompt;
+  }
+
+  /**
+   * Provider-specific options passed with every request
+   */
+  protected getProviderOptions(): Record<string, Record<string, JSONValue>> | undefined {
+    return undefined;
+  }
+
+  /**
+   * Check if an error is a NoObjectGeneratedError
+   */
+  static isNoObjectError(error: unknown): error is NoObjectGeneratedError {
+    return NoObjectGeneratedError.isInstance(error);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Recorded model fixtures
+ * Raw responses captured from a real model run, saved as JSON and replayed by the mock client,
+ * so a real model's quirks can be reproduced offline
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { z } from "zod";
+import type { RecordedResponse } from "@/lib/ai/model-client";
+
+export interface ModelFixture {
+  recordedFrom: string; // "provider:model" of the run that was recorded
+  steps: RecordedResponse[]; // One per model call, in the order the calls finished
+}
+
+const modelFixtureSchema = z.object({
+  recordedFrom: z.string().min(1),
+  steps: z
+    .array(
+      z.discriminatedUnion("type", [
+        z.object({ type: z.literal("response"), text: z.string() }),
+        z.object({ type: z.literal("error"), message: z.string() }),
+      ])
+    )
+    .min(1),
+});
+
+/**
+ * Read and check a fixture file
+ */
+export function loadModelFixture(path: string): ModelFixture {
+  let contents: unknown;
+  try {
+    contents = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Couldn't read the model fixture ${path}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const parsed = modelFixtureSchema.safeParse(contents);
+  if (!parsed.success) {
+    throw new Error(`${path} isn't a model fixture: ${parsed.error.issues[0].message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Create a recorder that saves every response it receives to a fixture file
+ * Each recorder starts a new fixture, so the file always holds the latest run
+ */
+export function createFixtureRecorder(
+  path: string,
+  recordedFrom: string
+): (response: RecordedResponse) => void {
+  const fixture: ModelFixture = { recordedFrom, steps: [] };
+
+  return (response) => {
+    fixture.steps.push(response);
+    try {
+      writeFileSync(path, `${JSON.stringify(fixture, null, 2)}\n`);
+    } catch (error) {
+      // Recording is a debugging aid and never fails the generation
+      console.warn(`⚠️  Couldn't record the model response to ${path}:`, error);
+    }
+  };
+}
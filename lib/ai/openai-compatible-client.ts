@@ -0,0 +1,36 @@
+/**
+ * Client for hosted OpenAI-compatible chat completion endpoints (OpenAI, Groq, Together, ...)
+ * The endpoint must support structured outputs (JSON schema response format)
+ */
+
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { StreamingModelClient, type AIConfig } from "@/lib/ai/model-client";
+
+export interface OpenAICompatibleSettings {
+  baseURL: string; // e.g. "https://api.openai.com/v1"
+  apiKey?: string;
+}
+
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: AIConfig = {
+  model: "gpt-4.1",
+  temperature: 1,
+  maxOutputTokens: 32768,
+  topP: 0.95,
+};
+
+export class OpenAICompatibleClient extends StreamingModelClient {
+  readonly provider = "openai-compatible";
+
+  constructor(
+    settings: OpenAICompatibleSettings,
+    config: AIConfig = DEFAULT_OPENAI_COMPATIBLE_CONFIG
+  ) {
+    const provider = createOpenAICompatible({
+      name: "openai-compatible",
+      baseURL: settings.baseURL,
+      apiKey: settings.apiKey,
+      supportsStructuredOutputs: true,
+    });
+    super(config, provider.chatModel(config.model));
+  }
+}
@@ -13,6 +13,18 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   baseDelayMs: 1000, // 1 second base delay
 };
 
+/**
+ * Retry config for the server, with the base delay overridable by TIMESTAMP_RETRY_BASE_DELAY_MS
+ * (tests set it to 0 so retries don't wait)
+ */
+export function getRetryConfig(env: Record<string, string | undefined> = process.env): RetryConfig {
+  const baseDelayMs = Number(env.TIMESTAMP_RETRY_BASE_DELAY_MS);
+  return {
+    ...DEFAULT_RETRY_CONFIG,
+    ...(env.TIMESTAMP_RETRY_BASE_DELAY_MS && baseDelayMs >= 0 && { baseDelayMs }),
+  };
+}
+
 /**
  * Execute an async operation with exponential backoff retry logic
  */
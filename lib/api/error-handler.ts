@@ -5,7 +5,10 @@
 
 import { NextResponse } from "next/server";
 import { ValidationError } from "@/lib/validation/request-validator";
-import { GeminiClient } from "@/lib/ai/gemini-client";
+import { StreamingModelClient } from "@/lib/ai/model-client";
+import { ModelConfigurationError } from "@/lib/ai/model-client-factory";
+import { SubtitleFormatError } from "@/lib/subtitle-formats";
+import { PromptTemplateError } from "@/lib/prompts";
 
 export class ApiErrorHandler {
   /**
@@ -20,25 +23,41 @@ export class ApiErrorHandler {
       return error.toResponse();
     }
 
-    // AI-specific errors (500 Internal Server Error)
-    if (GeminiClient.isNoObjectError(error)) {
-      return this.createJsonResponse(
-        {
-          error: "Failed to generate valid timestamps. The AI response could not be parsed.",
-          details: error.message,
-        },
-        500
-      );
+    // Unrecognized or unparseable subtitle content (400 Bad Request)
+    if (error instanceof SubtitleFormatError) {
+      return this.createJsonResponse({ error: error.message }, 400);
     }
 
-    // Generic errors (500 Internal Server Error)
-    return this.createJsonResponse(
-      {
-        error: "Failed to process request",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      500
-    );
+    // Requested provider not allowed or not set up (400), or the server misconfigured (500)
+    if (error instanceof ModelConfigurationError) {
+      return this.createJsonResponse({ error: error.message }, error.statusCode);
+    }
+
+    // Unknown prompt version (400 Bad Request)
+    if (error instanceof PromptTemplateError) {
+      return this.createJsonResponse({ error: error.message }, 400);
+    }
+
+    // AI-specific and generic errors (500 Internal Server Error)
+    return this.createJsonResponse(this.describeGenerationError(error), 500);
+  }
+
+  /**
+   * Error body for failures during generation
+   * Also used for error events once an event stream has already started
+   */
+  static describeGenerationError(error: unknown): { error: string; details: string } {
+    if (StreamingModelClient.isNoObjectError(error)) {
+      return {
+        error: "Failed to generate valid timestamps. The AI response could not be parsed.",
+        details: error.message,
+      };
+    }
+
+    return {
+      error: "Failed to process request",
+      details: error instanceof Error ? error.message : "Unknown error",
+    };
   }
 
   /**
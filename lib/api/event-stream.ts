@@ -0,0 +1,57 @@
+/**
+ * NDJSON event stream responses for /api/generate
+ * Each line is one JSON-encoded GenerationEvent
+ */
+
+import { ApiErrorHandler } from "@/lib/api/error-handler";
+import type {
+  GenerationEvent,
+  GenerationEventListener,
+} from "@/lib/services/timestamp-generation/types";
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+/**
+ * Whether the client asked for the event stream (Accept header or ?stream=ndjson)
+ */
+export function wantsEventStream(request: Request): boolean {
+  const accept = request.headers.get("accept") ?? "";
+  return (
+    accept.includes(NDJSON_CONTENT_TYPE) ||
+    new URL(request.url).searchParams.get("stream") === "ndjson"
+  );
+}
+
+/**
+ * Run a generation and stream its events as NDJSON
+ * Failures after the stream has started are sent as a final "error" event
+ */
+export function createEventStreamResponse(
+  run: (emit: GenerationEventListener) => Promise<unknown>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: GenerationEvent) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        await run(emit);
+      } catch (error) {
+        console.error("Error during streamed generation:", error);
+        emit({ type: "error", ...ApiErrorHandler.describeGenerationError(error) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": `${NDJSON_CONTENT_TYPE}; charset=utf-8`,
+      "Cache-Control": "no-cache",
+    },
+  });
+}
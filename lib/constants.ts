@@ -4,3 +4,6 @@
 
 // Max file size in bytes (1 MB - supports 6+ hour livestream SRT files)
 export const MAX_FILE_SIZE = 1024 * 1024;
+
+// Subtitle file extensions accepted by the uploader and schemas
+export const SUPPORTED_SUBTITLE_EXTENSIONS = [".srt", ".vtt"];
@@ -0,0 +1,46 @@
+/**
+ * Golden set loading for the evaluation harness
+ * A golden set is a folder of transcripts, each next to a `<name>.chapters.txt` file with the
+ * reference chapters in YouTube description form ("00:00 Intro", one per line)
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { isSupportedSubtitleFile } from "@/lib/subtitle-formats";
+import { parseChapterList } from "@/lib/timestamp-utils/chapter-list";
+import type { GoldenCase } from "./types";
+
+const REFERENCE_SUFFIX = ".chapters.txt";
+
+/**
+ * Load every transcript in a folder that has reference chapters next to it
+ */
+export async function loadGoldenSet(directory: string): Promise<GoldenCase[]> {
+  const fileNames = (await readdir(directory)).sort();
+  const cases: GoldenCase[] = [];
+
+  for (const fileName of fileNames) {
+    if (fileName.endsWith(REFERENCE_SUFFIX) || !isSupportedSubtitleFile(fileName)) continue;
+
+    const id = path.basename(fileName, path.extname(fileName));
+    const referenceName = `${id}${REFERENCE_SUFFIX}`;
+    if (!fileNames.includes(referenceName)) {
+      console.warn(`⚠️  WARNING: Skipping ${fileName}, no ${referenceName} found`);
+      continue;
+    }
+
+    const [transcript, referenceContent] = await Promise.all([
+      readFile(path.join(directory, fileName), "utf8"),
+      readFile(path.join(directory, referenceName), "utf8"),
+    ]);
+    const reference = parseChapterList(referenceContent);
+    if (reference.length === 0) {
+      console.warn(`⚠️  WARNING: Skipping ${fileName}, ${referenceName} has no chapters`);
+      continue;
+    }
+
+    cases.push({ id, fileName, transcript, reference });
+  }
+
+  return cases;
+}
@@ -0,0 +1,181 @@
+/**
+ * Evaluation runner
+ * Runs the full generation pipeline over a golden set and scores every case, producing a
+ * report that can be compared across prompt versions and models
+ */
+
+import type { TimestampModelClient } from "@/lib/ai/model-client";
+import { detectAndParse } from "@/lib/subtitle-formats";
+import { SrtMetadataExtractor } from "@/lib/services/srt-metadata-extractor";
+import { TimestampGenerationService } from "@/lib/services/timestamp-generation/TimestampGenerationService";
+import type { TimestampGenerationRequest } from "@/lib/services/timestamp-generation/types";
+import { getPromptTemplate } from "@/lib/prompts";
+import { scoreCase, summarizeCases } from "./scoring";
+import {
+  DEFAULT_EVAL_CONFIG,
+  type CaseReport,
+  type EvalConfig,
+  type EvalReport,
+  type EvalSummary,
+  type GoldenCase,
+} from "./types";
+
+// Generation options, matching the API route's defaults unless overridden
+export type EvalGenerationOptions = Pick<
+  TimestampGenerationRequest,
+  "cleanup" | "mode" | "coverageRepair" | "grounding" | "promptVersion"
+>;
+
+export interface EvalRunOptions {
+  client: TimestampModelClient;
+  config?: Partial<EvalConfig>;
+  generation?: EvalGenerationOptions;
+  onCase?: (report: CaseReport, index: number, total: number) => void;
+}
+
+const DEFAULT_GENERATION_OPTIONS: EvalGenerationOptions = {
+  cleanup: {},
+  coverageRepair: {},
+  grounding: {},
+};
+
+/**
+ * Generate and score a single golden case; generation errors are recorded, not thrown
+ */
+async function runCase(
+  goldenCase: GoldenCase,
+  service: TimestampGenerationService,
+  config: EvalConfig,
+  generation: EvalGenerationOptions
+): Promise<CaseReport> {
+  const startedAt = Date.now();
+
+  try {
+    const subtitle = detectAndParse(goldenCase.transcript, goldenCase.fileName);
+    const metadata = SrtMetadataExtractor.extract(subtitle);
+    const result = await service.generateTimestamps({
+      srtContent: goldenCase.transcript,
+      subtitle,
+      metadata,
+      ...generation,
+    });
+
+    return {
+      id: goldenCase.id,
+      durationFormatted: metadata.durationFormatted,
+      elapsedMs: Date.now() - startedAt,
+      retryCount: result.metadata.retryCount,
+      warningFlags: result.metadata.warningFlags,
+      keyMoments: result.keyMoments,
+      scores: scoreCase(result, goldenCase.reference, config),
+    };
+  } catch (error) {
+    return {
+      id: goldenCase.id,
+      elapsedMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Run every case of a golden set one after another and build the report
+ */
+export async function runEval(cases: GoldenCase[], options: EvalRunOptions): Promise<EvalReport> {
+  const { client, onCase } = options;
+  const config = { ...DEFAULT_EVAL_CONFIG, ...options.config };
+  const generation = { ...DEFAULT_GENERATION_OPTIONS, ...options.generation };
+  const { version: promptVersion } = getPromptTemplate(generation.promptVersion);
+  const service = new TimestampGenerationService(client);
+
+  const reports: CaseReport[] = [];
+  for (const [index, goldenCase] of cases.entries()) {
+    const report = await runCase(goldenCase, service, config, generation);
+    reports.push(report);
+    onCase?.(report, index, cases.length);
+  }
+
+  return {
+    promptVersion,
+    model: `${client.provider}:${client.modelId}`,
+    createdAt: new Date().toISOString(),
+    config,
+    summary: summarizeCases(reports),
+    cases: reports,
+  };
+}
+
+// Summary rows: label, field, decimals, and which direction is an improvement
+const SUMMARY_ROWS: Array<[string, keyof EvalSummary, number, "higher" | "lower" | null]> = [
+  ["Coverage (end reached)", "endRatio", 2, "higher"],
+  ["Largest gap (s)", "largestGapSeconds", 0, "lower"],
+  ["Precision", "precision", 2, "higher"],
+  ["Recall", "recall", 2, "higher"],
+  ["F1", "f1", 2, "higher"],
+  ["Timing error (s)", "meanErrorSeconds", 1, "lower"],
+  ["Count / reference", "countRatio", 2, null],
+  ["Time format compliance", "timeCompliance", 2, "higher"],
+  ["Chapter rule violations", "chapterViolations", 2, "lower"],
+  ["Descriptions in range", "descriptionWithinRange", 2, "higher"],
+  ["Description words", "meanDescriptionWords", 1, null],
+  ["Failed cases", "failures", 0, "lower"],
+];
+
+/**
+ * Whether at least one case of a report generated successfully
+ */
+function hasScores(report: EvalReport): boolean {
+  return report.summary.failures < report.summary.cases;
+}
+
+/**
+ * Render a report as plain text, with the change against a baseline report when given
+ */
+export function formatReport(report: EvalReport, baseline?: EvalReport): string {
+  const lines = [
+    `Prompt ${report.promptVersion} · ${report.model} · ${report.summary.cases} cases` +
+      (baseline ? ` (vs prompt ${baseline.promptVersion} · ${baseline.model})` : ""),
+    "",
+  ];
+
+  for (const [label, field, decimals, better] of SUMMARY_ROWS) {
+    // Score means are meaningless for a report without any successful case
+    const isScore = field !== "cases" && field !== "failures";
+    if (isScore && !hasScores(report)) {
+      lines.push(`${label.padEnd(26)}${"n/a".padStart(8)}`);
+      continue;
+    }
+
+    const value = report.summary[field];
+    let row = `${label.padEnd(26)}${value.toFixed(decimals).padStart(8)}`;
+
+    if (baseline && (!isScore || hasScores(baseline))) {
+      const delta = value - baseline.summary[field];
+      const marker =
+        !better || Math.abs(delta) < 10 ** -decimals / 2
+          ? ""
+          : delta > 0 === (better === "higher")
+            ? " ✅"
+            : " ❌";
+      row += `  ${delta >= 0 ? "+" : ""}${delta.toFixed(decimals)}${marker}`;
+    }
+    lines.push(row);
+  }
+
+  lines.push("");
+  for (const caseReport of report.cases) {
+    if (!caseReport.scores) {
+      lines.push(`❌ ${caseReport.id}: ${caseReport.error}`);
+      continue;
+    }
+
+    const { timing, density, coverage } = caseReport.scores;
+    lines.push(
+      `${caseReport.id} (${caseReport.durationFormatted}): ` +
+        `F1 ${timing.f1.toFixed(2)}, ${density.count}/${density.referenceCount} chapters, ` +
+        `coverage ${coverage.endRatio.toFixed(2)}, ${(caseReport.elapsedMs / 1000).toFixed(1)}s`
+    );
+  }
+
+  return lines.join("\n");
+}
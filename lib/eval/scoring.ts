@@ -0,0 +1,159 @@
+/**
+ * Scoring of generated key moments against reference chapters
+ */
+
+import { findCoverageGaps } from "@/lib/timestamp-utils/coverage";
+import { validateChapters } from "@/lib/timestamp-utils/chapter-validator";
+import { parseMomentTime, type KeyMoment } from "@/lib/timestamp-utils/normalizer";
+import type { GenerationResult } from "@/lib/services/timestamp-generation/types";
+import {
+  DEFAULT_EVAL_CONFIG,
+  type CaseReport,
+  type CaseScores,
+  type EvalConfig,
+  type EvalSummary,
+} from "./types";
+
+const SHORT_TIME_PATTERN = /^\d{2}:\d{2}$/;
+const LONG_TIME_PATTERN = /^\d{2}:\d{2}:\d{2}$/;
+
+/**
+ * Mean of a list of numbers, 0 when empty
+ */
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+}
+
+/**
+ * Word count of a description
+ */
+function countWords(description: string): number {
+  return description.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Pair generated times with reference times one-to-one, closest pairs first
+ * Returns the distance of each matched pair in seconds
+ */
+export function matchChapterTimes(
+  generated: number[],
+  reference: number[],
+  toleranceSeconds: number
+): number[] {
+  const candidates = generated
+    .flatMap((time, generatedIndex) =>
+      reference.map((referenceTime, referenceIndex) => ({
+        generatedIndex,
+        referenceIndex,
+        distance: Math.abs(time - referenceTime),
+      }))
+    )
+    .filter((pair) => pair.distance <= toleranceSeconds)
+    .sort((a, b) => a.distance - b.distance);
+
+  const usedGenerated = new Set<number>();
+  const usedReference = new Set<number>();
+  const distances: number[] = [];
+  for (const pair of candidates) {
+    if (usedGenerated.has(pair.generatedIndex) || usedReference.has(pair.referenceIndex)) continue;
+    usedGenerated.add(pair.generatedIndex);
+    usedReference.add(pair.referenceIndex);
+    distances.push(pair.distance);
+  }
+
+  return distances;
+}
+
+/**
+ * Score one generation result against its reference chapters
+ */
+export function scoreCase(
+  result: GenerationResult,
+  reference: KeyMoment[],
+  config: EvalConfig = DEFAULT_EVAL_CONFIG
+): CaseScores {
+  const { keyMoments, metadata } = result;
+  const duration = metadata.durationInSeconds;
+  const times = keyMoments.map((moment) => parseMomentTime(moment.time));
+  const referenceTimes = reference.map((moment) => parseMomentTime(moment.time));
+
+  // Coverage: every gap counts here, not just those the repair would re-prompt for
+  const boundaries = [...times].sort((a, b) => a - b);
+  const lastTime = boundaries[boundaries.length - 1] ?? 0;
+  const largestGapSeconds = Math.max(
+    duration - lastTime,
+    ...boundaries.map((time, index) => (index > 0 ? time - boundaries[index - 1] : time))
+  );
+
+  // Timing
+  const distances = matchChapterTimes(times, referenceTimes, config.matchToleranceSeconds);
+  const precision = times.length > 0 ? distances.length / times.length : 0;
+  const recall = distances.length / referenceTimes.length;
+
+  // Format
+  const timePattern = metadata.durationInSeconds >= 3600 ? LONG_TIME_PATTERN : SHORT_TIME_PATTERN;
+  const wordCounts = keyMoments.map((moment) => countWords(moment.description));
+
+  return {
+    coverage: {
+      endRatio: duration > 0 ? Math.min(lastTime / duration, 1) : 0,
+      largestGapSeconds,
+      gapCount: findCoverageGaps(keyMoments, duration).length,
+    },
+    timing: {
+      matched: distances.length,
+      precision,
+      recall,
+      f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+      meanErrorSeconds: mean(distances),
+    },
+    density: {
+      count: keyMoments.length,
+      referenceCount: reference.length,
+      countRatio: keyMoments.length / reference.length,
+      perTenMinutes: duration > 0 ? (keyMoments.length / duration) * 600 : 0,
+    },
+    format: {
+      timeCompliance:
+        keyMoments.length > 0
+          ? keyMoments.filter((moment) => timePattern.test(moment.time)).length / keyMoments.length
+          : 0,
+      chapterViolations: validateChapters(keyMoments, duration).length,
+      normalizationChanges: metadata.normalizationChanges,
+      chapterFixes: metadata.chapterFixes.length,
+    },
+    descriptions: {
+      meanWords: mean(wordCounts),
+      referenceMeanWords: mean(reference.map((moment) => countWords(moment.description))),
+      withinRange: mean(
+        wordCounts.map((count) =>
+          count >= config.minDescriptionWords && count <= config.maxDescriptionWords ? 1 : 0
+        )
+      ),
+    },
+  };
+}
+
+/**
+ * Average the scores of every case that generated successfully
+ */
+export function summarizeCases(cases: CaseReport[]): EvalSummary {
+  const scores = cases.flatMap((report) => (report.scores ? [report.scores] : []));
+  const average = (pick: (score: CaseScores) => number) => mean(scores.map(pick));
+
+  return {
+    cases: cases.length,
+    failures: cases.length - scores.length,
+    endRatio: average((score) => score.coverage.endRatio),
+    largestGapSeconds: average((score) => score.coverage.largestGapSeconds),
+    precision: average((score) => score.timing.precision),
+    recall: average((score) => score.timing.recall),
+    f1: average((score) => score.timing.f1),
+    meanErrorSeconds: average((score) => score.timing.meanErrorSeconds),
+    countRatio: average((score) => score.density.countRatio),
+    timeCompliance: average((score) => score.format.timeCompliance),
+    chapterViolations: average((score) => score.format.chapterViolations),
+    descriptionWithinRange: average((score) => score.descriptions.withinRange),
+    meanDescriptionWords: average((score) => score.descriptions.meanWords),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Type definitions for the golden-transcript evaluation harness
+ */
+
+import type { KeyMoment } from "@/lib/timestamp-utils/normalizer";
+import type { GenerationWarningFlag } from "@/lib/services/timestamp-generation/types";
+
+/**
+ * One transcript with human-authored reference chapters
+ */
+export interface GoldenCase {
+  id: string; // File name without extension
+  fileName: string;
+  transcript: string; // Raw subtitle content in any registered format
+  reference: KeyMoment[];
+}
+
+export interface EvalConfig {
+  matchToleranceSeconds: number; // Max distance between a generated and a reference chapter
+  minDescriptionWords: number; // Description length range the prompt asks for
+  maxDescriptionWords: number;
+}
+
+export const DEFAULT_EVAL_CONFIG: EvalConfig = {
+  matchToleranceSeconds: 30,
+  minDescriptionWords: 3,
+  maxDescriptionWords: 6,
+};
+
+export interface CaseScores {
+  coverage: {
+    endRatio: number; // Last timestamp as a share of the video duration (0..1)
+    largestGapSeconds: number; // Longest stretch without a timestamp, including the tail
+    gapCount: number; // Gaps the coverage repair would re-prompt for
+  };
+  timing: {
+    matched: number; // Generated chapters paired with a reference chapter
+    precision: number; // Share of generated chapters that match a reference
+    recall: number; // Share of reference chapters that were found
+    f1: number;
+    meanErrorSeconds: number; // Mean distance of matched pairs
+  };
+  density: {
+    count: number;
+    referenceCount: number;
+    countRatio: number; // Generated / reference count, 1 is ideal
+    perTenMinutes: number;
+  };
+  format: {
+    timeCompliance: number; // Share of times in the expected MM:SS / HH:MM:SS form (0..1)
+    chapterViolations: number; // YouTube chapter rules still broken
+    normalizationChanges: number; // Model times that had to be rewritten
+    chapterFixes: number; // Automatic chapter rule fixes applied
+  };
+  descriptions: {
+    meanWords: number;
+    referenceMeanWords: number;
+    withinRange: number; // Share of descriptions inside the configured word range (0..1)
+  };
+}
+
+export interface CaseReport {
+  id: string;
+  durationFormatted?: string;
+  elapsedMs: number;
+  retryCount?: number;
+  warningFlags?: GenerationWarningFlag[];
+  keyMoments?: KeyMoment[];
+  scores?: CaseScores;
+  error?: string; // Set when generation failed for this case
+}
+
+// Means across the cases that generated successfully
+export interface EvalSummary {
+  cases: number;
+  failures: number;
+  endRatio: number;
+  largestGapSeconds: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  meanErrorSeconds: number;
+  countRatio: number;
+  timeCompliance: number;
+  chapterViolations: number;
+  descriptionWithinRange: number;
+  meanDescriptionWords: number;
+}
+
+export interface EvalReport {
+  promptVersion: string;
+  model: string; // "<provider>:<model id>"
+  createdAt: string;
+  config: EvalConfig;
+  summary: EvalSummary;
+  cases: CaseReport[];
+}
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyGenerationEvent,
+  INITIAL_GENERATION_STATE,
+  readGenerationEvents,
+  type GenerationEvent,
+} from "./generation-events";
+
+const DONE_METADATA = {
+  totalMoments: 1,
+  timeRange: { first: "00:00", last: "00:00" },
+  durationInSeconds: 60,
+  durationFormatted: "01:00",
+  format: "srt",
+  mode: "single",
+  model: "mock:mock-echo",
+  promptVersion: "v4",
+  retryCount: 0,
+  normalizationChanges: 0,
+  coverageWarnings: [],
+  chapterFixes: [],
+  styleFixes: [],
+  densityFixes: [],
+};
+
+/**
+ * Fold events into a generation state
+ */
+function applyAll(events: GenerationEvent[]) {
+  return events.reduce(applyGenerationEvent, INITIAL_GENERATION_STATE);
+}
+
+/**
+ * An NDJSON response streamed in the given chunks
+ */
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    })
+  );
+}
+
+describe("applyGenerationEvent", () => {
+  test("merges drafts from every window in time order", () => {
+    const state = applyAll([
+      { type: "moment", window: 1, index: 0, moment: { time: "50:00", description: "Later" } },
+      { type: "moment", window: 0, index: 0, moment: { time: "00:00", description: "Intro" } },
+      { type: "moment", window: 0, index: 1, moment: { time: "12:00", description: "Setup" } },
+    ]);
+
+    expect(state.keyMoments.map((moment) => moment.time)).toEqual(["00:00", "12:00", "50:00"]);
+  });
+
+  test("a reset discards only that window's drafts", () => {
+    const state = applyAll([
+      { type: "moment", window: 0, index: 0, moment: { time: "00:00", description: "Intro" } },
+      { type: "moment", window: 1, index: 0, moment: { time: "50:00", description: "Stale" } },
+      { type: "reset", window: 1 },
+      { type: "moment", window: 1, index: 0, moment: { time: "48:00", description: "Fresh" } },
+    ]);
+
+    expect(state.keyMoments.map((moment) => moment.description)).toEqual(["Intro", "Fresh"]);
+  });
+
+  test("the final moments replace the drafts", () => {
+    const state = applyAll([
+      { type: "moment", window: 0, index: 0, moment: { time: "00:05", description: "Draft" } },
+      { type: "moments", keyMoments: [{ time: "00:00", description: "Final" }] },
+    ]);
+
+    expect(state.keyMoments).toEqual([{ time: "00:00", description: "Final" }]);
+    expect(state.drafts).toEqual([]);
+  });
+});
+
+describe("readGenerationEvents", () => {
+  test("reassembles events split across chunks and skips garbled lines", async () => {
+    const events: GenerationEvent[] = [];
+    const done = JSON.stringify({ type: "done", metadata: DONE_METADATA });
+
+    await readGenerationEvents(
+      streamResponse([
+        '{"type":"progress","stage":"generating",',
+        '"progress":0.5,"message":"Halfway"}\n{not json\n',
+        `${done}\n`,
+      ]),
+      (event) => events.push(event)
+    );
+
+    expect(events.map((event) => event.type)).toEqual(["progress", "done"]);
+  });
+
+  test("rejects a stream that ends before done", async () => {
+    const progress = '{"type":"progress","stage":"generating","progress":0.5,"message":"Halfway"}';
+
+    await expect(readGenerationEvents(streamResponse([`${progress}\n`]), () => {})).rejects.toThrow(
+      "The connection closed before generation finished"
+    );
+  });
+
+  test("rejects with the server's error event", async () => {
+    const error = JSON.stringify({ type: "error", error: "Failed to process request" });
+
+    await expect(readGenerationEvents(streamResponse([error]), () => {})).rejects.toThrow(
+      "Failed to process request"
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Client-side reader for the generate API's NDJSON event stream
+ * Folds events into the state the results view renders
+ */
+
+import { z } from "zod";
+import {
+  generationEventSchema,
+  generationMetadataSchema,
+  timestampResultItemSchema,
+} from "@/lib/schemas";
+import { parseMomentTime } from "@/lib/timestamp-utils/normalizer";
+
+export type GenerationEvent = z.infer<typeof generationEventSchema>;
+
+type KeyMoment = z.infer<typeof timestampResultItemSchema>;
+
+export interface GenerationState {
+  keyMoments: KeyMoment[]; // Drafts in time order until the "moments" event
+  drafts: KeyMoment[][]; // Drafted moments by transcript window
+  metadata?: z.infer<typeof generationMetadataSchema>; // Set by the final "done" event
+  progress: number; // 0..1
+  progressMessage: string;
+  warnings: Array<{ flag: string; message: string }>;
+  retries: number;
+}
+
+export const INITIAL_GENERATION_STATE: GenerationState = {
+  keyMoments: [],
+  drafts: [],
+  progress: 0,
+  progressMessage: "Preparing your transcript...",
+  warnings: [],
+  retries: 0,
+};
+
+/**
+ * Drafts from every window as one list in time order
+ */
+function mergeDrafts(drafts: KeyMoment[][]): KeyMoment[] {
+  return drafts
+    .flatMap((moments) => moments ?? [])
+    .sort((a, b) => parseMomentTime(a.time) - parseMomentTime(b.time));
+}
+
+/**
+ * Apply one event to the generation state
+ */
+export function applyGenerationEvent(
+  state: GenerationState,
+  event: GenerationEvent
+): GenerationState {
+  switch (event.type) {
+    case "progress":
+      return { ...state, progress: event.progress, progressMessage: event.message };
+    case "warning":
+      return {
+        ...state,
+        warnings: [...state.warnings, { flag: event.flag, message: event.message }],
+      };
+    case "retry":
+      return { ...state, retries: state.retries + 1 };
+    case "moment": {
+      const drafts = [...state.drafts];
+      drafts[event.window] = [...(drafts[event.window] ?? [])];
+      drafts[event.window][event.index] = event.moment;
+      return { ...state, drafts, keyMoments: mergeDrafts(drafts) };
+    }
+    case "reset": {
+      const drafts = [...state.drafts];
+      drafts[event.window] = [];
+      return { ...state, drafts, keyMoments: mergeDrafts(drafts) };
+    }
+    case "moments":
+      return { ...state, drafts: [], keyMoments: event.keyMoments };
+    case "done":
+      return { ...state, metadata: event.metadata, progress: 1, progressMessage: "Done" };
+    default:
+      return state;
+  }
+}
+
+/**
+ * Read an NDJSON event stream, calling `onEvent` for every valid event
+ * Rejects when the server reports an "error" event, or the stream ends without "done"
+ */
+export async function readGenerationEvents(
+  response: Response,
+  onEvent: (event: GenerationEvent) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("The server returned an empty response");
+
+  const decoder = new TextDecoder();
+  let buffered = "";
+  let finished = false;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      console.warn("Ignoring garbled generation event:", line);
+      return;
+    }
+
+    const parsed = generationEventSchema.safeParse(json);
+    if (!parsed.success) {
+      console.warn("Ignoring unrecognized generation event:", line);
+      return;
+    }
+    if (parsed.data.type === "error") {
+      throw new Error(parsed.data.error);
+    }
+    if (parsed.data.type === "done") finished = true;
+    onEvent(parsed.data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+
+  handleLine(buffered + decoder.decode());
+  if (!finished) {
+    throw new Error("The connection closed before generation finished");
+  }
+}
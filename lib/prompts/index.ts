@@ -0,0 +1,24 @@
+/**
+ * Versioned prompt templates
+ * Built-in versions are registered here; add a version by writing a template module in
+ * ./templates and registering it below. Users can also write their own templates, which are
+ * sent with each request and checked with validateTemplate
+ */
+
+import { registerPromptTemplate } from "./registry";
+import { v4PromptTemplate } from "./templates/v4";
+
+registerPromptTemplate(v4PromptTemplate);
+
+export {
+  DEFAULT_PROMPT_VERSION,
+  getPromptTemplate,
+  getPromptTemplates,
+  getPromptVariableNames,
+  isPromptVersion,
+  PromptTemplateError,
+  registerPromptTemplate,
+  renderPromptTemplate,
+  validateTemplate,
+} from "./registry";
+export type { PromptTemplate, PromptVariables } from "./types";
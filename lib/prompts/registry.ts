@@ -0,0 +1,151 @@
+/**
+ * Prompt template registry and rendering
+ * Templates are validated against the known variables when registered (or, for custom
+ * templates, when a request arrives), so a typo fails early instead of sending a literal
+ * {{placeholder}} to the model
+ */
+
+import type { PromptTemplate, PromptVariables } from "./types";
+
+export const DEFAULT_PROMPT_VERSION = "v4";
+
+// Every variable a template may reference
+const PROMPT_VARIABLE_NAMES: Record<keyof PromptVariables, true> = {
+  transcript: true,
+  format: true,
+  durationFormatted: true,
+  durationInSeconds: true,
+  endTimestamp: true,
+  startTimestamp: true,
+  timeFormat: true,
+  isLongContent: true,
+  speakers: true,
+  channelExamples: true,
+  channelStyle: true,
+  densityGuideline: true,
+};
+
+const TAG_PATTERN = /\{\{([#^/]?)(\w+)\}\}/g;
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+const templates: PromptTemplate[] = [];
+
+/**
+ * Error raised for an unknown prompt version or an invalid template
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+/**
+ * Check that a template includes the transcript, only uses known variables and that its
+ * sections are balanced
+ */
+export function validateTemplate(template: PromptTemplate): void {
+  if (!template.template.includes("{{transcript}}")) {
+    throw new PromptTemplateError(`Prompt ${template.version} never includes {{transcript}}`);
+  }
+
+  const openSections: string[] = [];
+
+  for (const [tag, kind, name] of template.template.matchAll(TAG_PATTERN)) {
+    if (!(name in PROMPT_VARIABLE_NAMES)) {
+      throw new PromptTemplateError(
+        `Prompt ${template.version} uses unknown variable ${tag}. ` +
+          `Available: ${Object.keys(PROMPT_VARIABLE_NAMES).join(", ")}`
+      );
+    }
+    if (kind === "#" || kind === "^") {
+      if (openSections.includes(name)) {
+        throw new PromptTemplateError(
+          `Prompt ${template.version} opens ${tag} inside a section for the same variable`
+        );
+      }
+      openSections.push(name);
+    } else if (kind === "/" && openSections.pop() !== name) {
+      throw new PromptTemplateError(`Prompt ${template.version} closes ${tag} without opening it`);
+    }
+  }
+
+  if (openSections.length > 0) {
+    throw new PromptTemplateError(
+      `Prompt ${template.version} never closes {{#${openSections[0]}}}`
+    );
+  }
+}
+
+/**
+ * Register a prompt template, replacing any existing template with the same version
+ */
+export function registerPromptTemplate(template: PromptTemplate): void {
+  validateTemplate(template);
+  const existingIndex = templates.findIndex(
+    (registered) => registered.version === template.version
+  );
+
+  if (existingIndex >= 0) {
+    templates[existingIndex] = template;
+  } else {
+    templates.push(template);
+  }
+}
+
+/**
+ * Names of the variables a template may reference
+ */
+export function getPromptVariableNames(): string[] {
+  return Object.keys(PROMPT_VARIABLE_NAMES);
+}
+
+/**
+ * Get all registered prompt templates in registration order
+ */
+export function getPromptTemplates(): PromptTemplate[] {
+  return [...templates];
+}
+
+/**
+ * Check whether a prompt version is registered
+ */
+export function isPromptVersion(version: string): boolean {
+  return templates.some((template) => template.version === version);
+}
+
+/**
+ * Get the template for a prompt version (the default when omitted)
+ */
+export function getPromptTemplate(version: string = DEFAULT_PROMPT_VERSION): PromptTemplate {
+  const template = templates.find((registered) => registered.version === version);
+  if (!template) {
+    throw new PromptTemplateError(
+      `Unknown prompt version "${version}". ` +
+        `Use one of: ${templates.map((registered) => registered.version).join(", ")}`
+    );
+  }
+  return template;
+}
+
+/**
+ * Keep or drop sections by their variables, outermost first
+ */
+function renderSections(text: string, variables: PromptVariables): string {
+  return text.replace(
+    SECTION_PATTERN,
+    (_match, kind: string, name: keyof PromptVariables, content) =>
+      Boolean(variables[name]) === (kind === "#") ? renderSections(content, variables) : ""
+  );
+}
+
+/**
+ * Fill a template's sections and variables
+ */
+export function renderPromptTemplate(template: PromptTemplate, variables: PromptVariables): string {
+  return renderSections(template.template, variables).replace(
+    VARIABLE_PATTERN,
+    (_match, name: keyof PromptVariables) => String(variables[name])
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Type definitions for versioned prompt templates
+ */
+
+/**
+ * Values available to a template, filled in by PromptBuilder for every prompt
+ */
+export interface PromptVariables {
+  transcript: string; // Transcript block content
+  format: string; // Code fence language of the transcript block (e.g. "srt", "text")
+  durationFormatted: string; // Human-readable duration, e.g. "1 hr 23 mins"
+  durationInSeconds: number;
+  endTimestamp: string; // Video end as H:MM:SS or M:SS
+  startTimestamp: string; // "00:00:00" for long content, otherwise "00:00"
+  timeFormat: string; // "HH:MM:SS" for long content, otherwise "MM:SS"
+  isLongContent: boolean; // Video is an hour or longer
+  speakers: string; // Comma-separated speaker names, empty when none were detected
+  channelExamples: string; // The channel's past chapter lists as JSON, empty without a profile
+  channelStyle: string; // The channel's style rules, one per line, empty without a profile
+  densityGuideline: string; // Requested number of key moments, e.g. "exactly 8 key moments"
+}
+
+/**
+ * A named prompt version
+ * Templates reference variables as {{name}}; {{#name}}...{{/name}} renders its content only
+ * when the variable is truthy and {{^name}}...{{/name}} only when it is falsy
+ * Sections can nest as long as a section doesn't contain another for the same variable
+ */
+export interface PromptTemplate {
+  version: string; // Stable id stored in result metadata, e.g. "v4"
+  name: string;
+  description: string;
+  template: string;
+}
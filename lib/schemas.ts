@@ -1,5 +1,13 @@
 import { z } from "zod";
 import { MAX_FILE_SIZE } from "./constants";
+import { getSupportedExtensions, isSupportedSubtitleFile } from "./subtitle-formats";
+import {
+  getPromptTemplates,
+  isPromptVersion,
+  PromptTemplateError,
+  validateTemplate,
+} from "./prompts";
+import { stripBom } from "./text-encoding";
 
 // SRT Entry schema for validating individual entries
 export const srtEntrySchema = z.object({
@@ -7,6 +15,9 @@ export const srtEntrySchema = z.object({
   startTime: z.string(),
   endTime: z.string(),
   text: z.string(),
+  lines: z.array(z.string()),
+  plainText: z.string(),
+  speaker: z.string().optional(),
 });
 
 // SRT Content schema for validating the entire SRT content
@@ -17,21 +28,153 @@ export const srtContentSchema = z.object({
     .max(MAX_FILE_SIZE, `SRT content is too large. Maximum size is ${MAX_FILE_SIZE / 1024}KB`),
 });
 
-// SRT File schema for validating file uploads
+// Subtitle file schema for validating file uploads (any registered format)
 export const srtFileSchema = z.object({
-  fileName: z.string().endsWith(".srt", "File must be an .srt file"),
+  fileName: z
+    .string()
+    .refine(isSupportedSubtitleFile, {
+      error: () => `File must be one of: ${getSupportedExtensions().join(", ")}`,
+    }),
   fileContent: z
     .string()
     .min(1, "File content is required")
     .max(MAX_FILE_SIZE, `File is too large. Maximum size is ${MAX_FILE_SIZE / 1024}KB`),
 });
 
+// Transcript cleanup options for the generate endpoint (defaults in lib/transcript-cleanup.ts)
+export const transcriptCleanupSchema = z.object({
+  dedupeRollingCaptions: z.boolean().optional(),
+  removeFillers: z.boolean().optional(),
+  removeSoundTags: z.boolean().optional(),
+  removeSpeakerChangeMarkers: z.boolean().optional(),
+  mergeShortCues: z.boolean().optional(),
+  minCueSeconds: z.number().min(0).max(10).optional(),
+  minCueWords: z.number().int().min(0).max(20).optional(),
+  maxMergedCharacters: z.number().int().min(20).max(1000).optional(),
+  fillerWords: z.array(z.string().min(1).max(30)).max(100).optional(),
+});
+
+// Coverage-gap repair thresholds (defaults in lib/timestamp-utils/coverage.ts)
+export const coverageRepairSchema = z.object({
+  maxGapSeconds: z.number().min(60).optional(),
+  maxTailGapSeconds: z.number().min(60).optional(),
+  maxRepairRanges: z.number().int().min(1).max(10).optional(),
+});
+
+// Grounding check settings (defaults in lib/timestamp-utils/grounding.ts)
+export const groundingSchema = z.object({
+  snapToleranceSeconds: z.number().min(0).max(60).optional(),
+  minScore: z.number().min(0).max(1).optional(),
+  ungroundedAction: z.enum(["flag", "drop"]).optional(),
+});
+
+// Model selection for a single request (defaults come from server configuration)
+export const modelSelectionSchema = z.object({
+  provider: z.enum(["gateway", "openai-compatible", "anthropic", "local"]).optional(),
+  model: z.string().min(1).max(100).optional(),
+});
+
+// A user-written prompt template, sent in full since only built-in versions live on the server
+export const promptTemplateSchema = z
+  .object({
+    version: z
+      .string()
+      .min(1, "Prompt version is required")
+      .max(40)
+      .regex(/^[\w.-]+$/, "Prompt version can only use letters, numbers, dots, dashes and _")
+      .refine((version) => !isPromptVersion(version), {
+        error: "Prompt version is already used by a built-in prompt",
+      }),
+    name: z.string().min(1, "Prompt name is required").max(60),
+    description: z.string().max(200),
+    template: z.string().min(1, "Prompt template is required").max(50000),
+  })
+  .superRefine((template, context) => {
+    try {
+      validateTemplate(template);
+    } catch (error) {
+      if (!(error instanceof PromptTemplateError)) throw error;
+      context.addIssue({ code: "custom", message: error.message, path: ["template"] });
+    }
+  });
+
+// Channel style profile (defaults in lib/timestamp-utils/style-profile.ts)
+export const styleProfileSchema = z.object({
+  name: z.string().min(1, "Style profile name is required").max(60),
+  // Past chapter lists, one "time description" per line
+  examples: z.array(z.string().max(10000)).max(5).optional(),
+  descriptionWords: z
+    .object({
+      min: z.number().int().min(1).max(30),
+      max: z.number().int().min(1).max(30),
+    })
+    .refine((words) => words.min <= words.max, {
+      error: "Minimum description words can't be more than the maximum",
+    })
+    .optional(),
+  casing: z.enum(["as-is", "sentence", "title", "lower"]).optional(),
+  emoji: z.enum(["none", "allowed", "preferred"]).optional(),
+  bannedWords: z.array(z.string().min(1).max(40)).max(100).optional(),
+});
+
+// Requested number of key moments: an exact count, a range, or a target interval
+export const densitySchema = z
+  .object({
+    targetCount: z.number().int().min(1).max(100).optional(),
+    minCount: z.number().int().min(1).max(100).optional(),
+    maxCount: z.number().int().min(1).max(100).optional(),
+    targetIntervalSeconds: z.number().min(30).max(3600).optional(),
+  })
+  .refine((density) => !(density.targetCount && density.targetIntervalSeconds), {
+    error: "Choose either a target count or a target interval, not both",
+  })
+  .refine(
+    (density) => !density.minCount || !density.maxCount || density.minCount <= density.maxCount,
+    { error: "Minimum count can't be more than the maximum" }
+  )
+  .refine(
+    (density) =>
+      !density.targetCount ||
+      ((!density.minCount || density.minCount <= density.targetCount) &&
+        (!density.maxCount || density.targetCount <= density.maxCount)),
+    { error: "Target count must be between the minimum and maximum" }
+  );
+
 // API Request schema for validating the generate endpoint
 export const generateApiRequestSchema = z.object({
   srtContent: z
     .string()
     .min(1, "SRT content is required")
-    .max(MAX_FILE_SIZE, `SRT content is too large. Maximum size is ${MAX_FILE_SIZE / 1024}KB`),
+    .max(MAX_FILE_SIZE, `SRT content is too large. Maximum size is ${MAX_FILE_SIZE / 1024}KB`)
+    .transform(stripBom),
+  // Original file name, used as a hint for subtitle format detection
+  fileName: z.string().max(255).optional(),
+  // Clean up the transcript before prompting: on by default, false to disable, or options
+  cleanup: z.union([z.boolean(), transcriptCleanupSchema]).optional(),
+  // Single prompt, chunked map-reduce, or automatic selection by video length
+  mode: z.enum(["single", "chunked", "auto"]).optional(),
+  // Re-prompt for gaps and tail truncation: on by default, false to disable, or thresholds
+  coverageRepair: z.union([z.boolean(), coverageRepairSchema]).optional(),
+  // Snap times to cue starts and flag or drop ungrounded moments: on by default
+  grounding: z.union([z.boolean(), groundingSchema]).optional(),
+  // Provider and model id; the provider's endpoint and credentials stay server-side
+  model: modelSelectionSchema.optional(),
+  // Custom prompt template, used instead of promptVersion
+  promptTemplate: promptTemplateSchema.optional(),
+  // Prompt template version (defaults to the current prompt)
+  promptVersion: z
+    .string()
+    .refine(isPromptVersion, {
+      error: () =>
+        `Prompt version must be one of: ${getPromptTemplates()
+          .map((template) => template.version)
+          .join(", ")}`,
+    })
+    .optional(),
+  // Channel style: few-shot examples for the prompt and wording rules enforced afterwards
+  styleProfile: styleProfileSchema.optional(),
+  // Number of key moments, enforced by requesting more or merging after generation
+  density: densitySchema.optional(),
 });
 
 // SRT Entries array schema
@@ -50,6 +193,11 @@ export const timestampItemSchema = z.object({
     .describe("Brief description of what happens at this timestamp"),
 });
 
+// Key moment as returned by the API, including annotations added after generation
+export const timestampResultItemSchema = timestampItemSchema.extend({
+  ungrounded: z.boolean().optional(),
+});
+
 // Schema for the complete AI-generated timestamp response
 export const timestampResponseSchema = z.object({
   keyMoments: z
@@ -57,3 +205,59 @@ export const timestampResponseSchema = z.object({
     .min(1, "At least one timestamp must be generated")
     .describe("Array of key moments with timestamps and descriptions"),
 });
+
+// Schema for the metadata returned alongside the final key moments
+export const generationMetadataSchema = z.object({
+  totalMoments: z.number(),
+  timeRange: z.object({ first: z.string(), last: z.string() }),
+  warningFlags: z.array(z.string()).optional(),
+  durationInSeconds: z.number(),
+  durationFormatted: z.string(),
+  format: z.string(),
+  mode: z.enum(["single", "chunked"]),
+  model: z.string(),
+  promptVersion: z.string(),
+  styleProfile: z.string().optional(),
+  retryCount: z.number(),
+  normalizationChanges: z.number(),
+  coverageWarnings: z.array(z.string()),
+  chapterFixes: z.array(z.string()),
+  styleFixes: z.array(z.string()),
+  densityFixes: z.array(z.string()),
+});
+
+// Schema for the generate API response as read by the client
+export const timestampResultSchema = z.object({
+  keyMoments: z.array(timestampResultItemSchema),
+  metadata: generationMetadataSchema.optional(),
+});
+
+// Schema for one line of the generate API's NDJSON event stream
+export const generationEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("metadata"),
+    durationInSeconds: z.number(),
+    durationFormatted: z.string(),
+    format: z.string(),
+    mode: z.enum(["single", "chunked"]),
+    entriesCount: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal("progress"),
+    stage: z.enum(["generating", "repairing", "grounding", "finalizing"]),
+    progress: z.number().min(0).max(1),
+    message: z.string(),
+  }),
+  z.object({ type: z.literal("warning"), flag: z.string(), message: z.string() }),
+  z.object({ type: z.literal("retry"), attempt: z.number(), error: z.string() }),
+  z.object({
+    type: z.literal("moment"),
+    window: z.number(),
+    index: z.number(),
+    moment: timestampResultItemSchema,
+  }),
+  z.object({ type: z.literal("reset"), window: z.number() }),
+  z.object({ type: z.literal("moments"), keyMoments: z.array(timestampResultItemSchema) }),
+  z.object({ type: z.literal("done"), metadata: generationMetadataSchema }),
+  z.object({ type: z.literal("error"), error: z.string(), details: z.string().optional() }),
+]);
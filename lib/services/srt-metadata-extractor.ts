@@ -1,33 +1,44 @@
 /**
- * Extracts and validates metadata from SRT subtitle files
- * Handles duration detection with fallback logging for edge cases
+ * Extracts and validates metadata from subtitle files
+ * Handles format detection and duration detection with fallback logging for edge cases
  */
 
-import { getDurationInSeconds, formatDuration } from "@/lib/srt-parser";
+import { getDurationInSeconds, formatDuration, getSpeakers } from "@/lib/srt-parser";
+import type { ParsedSubtitle } from "@/lib/subtitle-formats";
 import type { SrtMetadata } from "./timestamp-generation/types";
 
 export class SrtMetadataExtractor {
   /**
-   * Extract video metadata from SRT content
+   * Extract video metadata from a subtitle parsed by detectAndParse
    * Includes duration detection with fallback logging for zero duration cases
    */
-  static extract(srtContent: string): SrtMetadata {
-    const durationInSeconds = getDurationInSeconds(srtContent);
+  static extract(subtitle: ParsedSubtitle): SrtMetadata {
+    const durationInSeconds = getDurationInSeconds(subtitle.entries);
     const durationFormatted = formatDuration(durationInSeconds);
     const isLongContent = durationInSeconds >= 3600; // > 1 hour
+    const speakers = getSpeakers(subtitle.entries);
 
     // Log metadata for debugging
-    this.logMetadata(durationInSeconds, durationFormatted, isLongContent);
+    console.log(
+      `🎬 Found ${subtitle.entries.length} subtitle entries, max duration: ${durationInSeconds} seconds`
+    );
+    this.logMetadata(subtitle.format, durationInSeconds, durationFormatted, isLongContent);
+    if (speakers.length > 0) {
+      console.log(`🗣️  Speakers detected: ${speakers.join(", ")}`);
+    }
 
     // Handle zero duration edge case
     if (durationInSeconds === 0) {
-      this.handleZeroDuration(srtContent);
+      this.handleZeroDuration(subtitle);
     }
 
     return {
       durationInSeconds,
       durationFormatted,
       isLongContent,
+      entriesCount: subtitle.entries.length,
+      format: subtitle.format,
+      speakers,
     };
   }
 
@@ -35,26 +46,28 @@ export class SrtMetadataExtractor {
    * Log extracted metadata for debugging purposes
    */
   private static logMetadata(
+    format: string,
     durationInSeconds: number,
     durationFormatted: string,
     isLongContent: boolean
   ): void {
+    console.log(`📄 Subtitle format detected: ${format}`);
     console.log(`📹 Video duration detected: ${durationInSeconds} seconds (${durationFormatted})`);
     console.log(`⏱️  Content type: ${isLongContent ? "Long (>1hr)" : "Short (<1hr)"}`);
   }
 
   /**
-   * Handle zero duration edge case with fallback timestamp extraction
+   * Handle zero duration edge case by logging the parsed cues for debugging
    */
-  private static handleZeroDuration(srtContent: string): void {
-    console.warn("⚠️  WARNING: Duration detection returned 0! Attempting manual extraction...");
+  private static handleZeroDuration(subtitle: ParsedSubtitle): void {
+    console.warn("⚠️  WARNING: Duration detection returned 0! Inspecting parsed entries...");
 
-    // Try to find the last timestamp in the SRT content
-    const lines = srtContent.split("\n");
-    const lastTimestampLine = lines.reverse().find((line) => /\d{2}:\d{2}:\d{2}/.test(line));
+    const lastEntry = subtitle.entries[subtitle.entries.length - 1];
 
-    if (lastTimestampLine) {
-      console.log(`🔍 Last timestamp line found: ${lastTimestampLine}`);
+    if (lastEntry) {
+      console.log(
+        `🔍 Last entry found: #${lastEntry.id} ${lastEntry.startTime} --> ${lastEntry.endTime}`
+      );
     }
   }
 }
@@ -3,97 +3,888 @@
  * Orchestrates prompt building, AI invocation, and result normalization
  */
 
-import { GeminiClient, DEFAULT_AI_CONFIG } from "@/lib/ai/gemini-client";
+import type { DeepPartial } from "ai";
+import { StreamingModelClient, type TimestampModelClient } from "@/lib/ai/model-client";
+import { createModelClient, type ModelSelection } from "@/lib/ai/model-client-factory";
 import { PromptBuilder } from "@/lib/timestamp-utils/prompt-builder";
-import { withExponentialRetry, DEFAULT_RETRY_CONFIG } from "@/lib/ai/retry-handler";
-import type { TimestampGenerationRequest } from "./types";
+import { getPromptTemplate } from "@/lib/prompts";
+import { withExponentialRetry, getRetryConfig, type RetryConfig } from "@/lib/ai/retry-handler";
+import {
+  getTimestampedTranscript,
+  serializeSrt,
+  timestampToSeconds,
+  type SrtEntry,
+} from "@/lib/srt-parser";
+import { cleanupTranscript, type CleanupReport } from "@/lib/transcript-cleanup";
+import {
+  reduceChunkMoments,
+  splitIntoChunks,
+  type TranscriptChunk,
+} from "@/lib/timestamp-utils/chunking";
+import {
+  DEFAULT_COVERAGE_CONFIG,
+  findCoverageGaps,
+  spliceGapMoments,
+  type CoverageGap,
+} from "@/lib/timestamp-utils/coverage";
+import { DEFAULT_GROUNDING_CONFIG, groundKeyMoments } from "@/lib/timestamp-utils/grounding";
+import { fixChapters, YOUTUBE_CHAPTER_RULES } from "@/lib/timestamp-utils/chapter-validator";
+import {
+  countChapters,
+  findSparsestRanges,
+  mergeToMaxCount,
+  resolveMomentCount,
+} from "@/lib/timestamp-utils/density";
+import { applyStyleProfile } from "@/lib/timestamp-utils/style-profile";
+import {
+  formatMomentTime,
+  parseMomentTime,
+  type KeyMoment,
+  type TimestampResponse,
+} from "@/lib/timestamp-utils/normalizer";
+import type {
+  GenerationEventListener,
+  GenerationResult,
+  GenerationStage,
+  GenerationWarningFlag,
+  SrtMetadata,
+  TimestampGenerationRequest,
+} from "./types";
+
+// Caption formats the model reads well as-is; anything else (JSON, ASS, plain text exports)
+// is rewritten as a normalized "[start - end] text" transcript before prompting
+const RAW_PROMPT_FORMATS = ["srt", "vtt", "sbv"];
+
+// In "auto" mode, videos longer than this are generated window by window
+const CHUNKED_MODE_THRESHOLD_SECONDS = 2 * 3600;
+
+// Windows generated concurrently in chunked mode
+const MAX_PARALLEL_CHUNKS = 4;
+
+// Share of reported progress spent on the main generation; repair and checks take the rest
+const GENERATION_PROGRESS_SHARE = 0.85;
+
+/**
+ * Per-request counters and warnings collected while generating
+ */
+interface GenerationDiagnostics {
+  emit: GenerationEventListener;
+  progress: number; // Last reported progress, so progress never moves backwards
+  retryCount: number;
+  normalizationChanges: number;
+  warningFlags: Set<GenerationWarningFlag>;
+  coverageWarnings: string[];
+  chapterFixes: string[];
+  styleFixes: string[];
+  densityFixes: string[];
+}
+
+/**
+ * Format a time range for logs, e.g. "01:05:00 - 01:20:00"
+ */
+function formatRange(startSeconds: number, endSeconds: number, isLongContent: boolean): string {
+  return `${formatMomentTime(startSeconds, isLongContent)} - ${formatMomentTime(endSeconds, isLongContent)}`;
+}
+
+/**
+ * Map items through an async operation with at most `limit` operations in flight
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  operation: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await operation(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
 
 export class TimestampGenerationService {
-  private aiClient: GeminiClient;
+  private aiClient: TimestampModelClient;
   private promptBuilder: PromptBuilder;
+  private retryConfig: RetryConfig;
 
-  constructor(aiClient?: GeminiClient, promptBuilder?: PromptBuilder) {
-    this.aiClient = aiClient || new GeminiClient(DEFAULT_AI_CONFIG);
+  constructor(
+    aiClient?: TimestampModelClient,
+    promptBuilder?: PromptBuilder,
+    retryConfig: RetryConfig = getRetryConfig()
+  ) {
+    this.aiClient = aiClient || createModelClient();
     this.promptBuilder = promptBuilder || new PromptBuilder();
+    this.retryConfig = retryConfig;
   }
 
   /**
-   * Factory method to create service with default configuration
+   * Factory method to create service with the configured model, or the one a request selected
    */
-  static create(): TimestampGenerationService {
-    return new TimestampGenerationService();
+  static create(model?: ModelSelection): TimestampGenerationService {
+    return new TimestampGenerationService(createModelClient(model));
+  }
+
+  /**
+   * Generate timestamps for a request, then repair coverage gaps, meet the requested number of
+   * moments, verify grounding, enforce the channel style and apply YouTube's chapter rules
+   * Long videos use chunked map-reduce generation, everything else a single prompt
+   * Progress, warnings and drafted moments are also reported to `onEvent` as they happen, and
+   * the final moments replace the drafts once every check has run
+   */
+  async generateTimestamps(
+    request: TimestampGenerationRequest,
+    onEvent: GenerationEventListener = () => {}
+  ): Promise<GenerationResult> {
+    const { metadata } = request;
+    // Resolved up front so an unknown version fails before any model call is retried
+    const { version: promptVersion } =
+      request.promptTemplate ?? getPromptTemplate(request.promptVersion);
+    const entries = this.getPromptEntries(request);
+    const diagnostics: GenerationDiagnostics = {
+      emit: onEvent,
+      progress: 0,
+      retryCount: 0,
+      normalizationChanges: 0,
+      warningFlags: new Set(),
+      coverageWarnings: [],
+      chapterFixes: [],
+      styleFixes: [],
+      densityFixes: [],
+    };
+
+    const isChunked = Boolean(entries) && this.shouldUseChunkedMode(request);
+    onEvent({
+      type: "metadata",
+      durationInSeconds: metadata.durationInSeconds,
+      durationFormatted: metadata.durationFormatted,
+      format: metadata.format ?? "srt",
+      mode: isChunked ? "chunked" : "single",
+      entriesCount: metadata.entriesCount,
+    });
+
+    const response =
+      entries && isChunked
+        ? await this.generateChunkedTimestamps(request, entries, diagnostics)
+        : await this.generateSingleTimestamps(request, diagnostics, entries);
+
+    const repaired = await this.repairCoverageGaps(request, response, diagnostics, entries);
+    // Counted before grounding, so moments added to reach the count are snapped and checked too
+    const counted = await this.enforceMomentCount(request, repaired, diagnostics, entries);
+    const grounded = this.verifyGrounding(request, counted, diagnostics, entries);
+    const styled = this.applyChannelStyle(request, grounded, diagnostics);
+    const final = this.applyChapterRules(styled, metadata, diagnostics);
+    this.checkMomentCount(request, final, diagnostics);
+    const result = this.buildResult(
+      final,
+      metadata,
+      {
+        mode: isChunked ? "chunked" : "single",
+        promptVersion,
+        styleProfile: request.styleProfile?.name,
+      },
+      diagnostics
+    );
+
+    onEvent({ type: "moments", keyMoments: result.keyMoments });
+    onEvent({ type: "done", metadata: result.metadata });
+    return result;
+  }
+
+  /**
+   * Emit a progress event when overall progress has moved forward by at least a percent
+   */
+  private reportProgress(
+    diagnostics: GenerationDiagnostics,
+    stage: GenerationStage,
+    progress: number,
+    message: string
+  ): void {
+    if (progress < diagnostics.progress + 0.01) return;
+
+    diagnostics.progress = progress;
+    diagnostics.emit({ type: "progress", stage, progress, message });
+  }
+
+  /**
+   * Record a warning flag and emit it as a warning event
+   */
+  private addWarning(
+    diagnostics: GenerationDiagnostics,
+    flag: GenerationWarningFlag,
+    message: string
+  ): void {
+    diagnostics.warningFlags.add(flag);
+    diagnostics.emit({ type: "warning", flag, message });
+  }
+
+  /**
+   * Assemble the final result with the metadata and warnings collected along the way
+   */
+  private buildResult(
+    response: TimestampResponse,
+    metadata: SrtMetadata,
+    settings: Pick<GenerationResult["metadata"], "mode" | "promptVersion" | "styleProfile">,
+    diagnostics: GenerationDiagnostics
+  ): GenerationResult {
+    const { keyMoments } = response;
+    if (diagnostics.retryCount > 0) diagnostics.warningFlags.add("retried");
+
+    return {
+      keyMoments,
+      metadata: {
+        totalMoments: keyMoments.length,
+        timeRange: {
+          first: keyMoments[0]?.time ?? "",
+          last: keyMoments[keyMoments.length - 1]?.time ?? "",
+        },
+        warningFlags: [...diagnostics.warningFlags],
+        durationInSeconds: metadata.durationInSeconds,
+        durationFormatted: metadata.durationFormatted,
+        format: metadata.format ?? "srt",
+        mode: settings.mode,
+        model: `${this.aiClient.provider}:${this.aiClient.modelId}`,
+        promptVersion: settings.promptVersion,
+        ...(settings.styleProfile && { styleProfile: settings.styleProfile }),
+        retryCount: diagnostics.retryCount,
+        normalizationChanges: diagnostics.normalizationChanges,
+        coverageWarnings: diagnostics.coverageWarnings,
+        chapterFixes: diagnostics.chapterFixes,
+        styleFixes: diagnostics.styleFixes,
+        densityFixes: diagnostics.densityFixes,
+      },
+    };
   }
 
   /**
-   * Generate timestamps from SRT content with retry logic
+   * Decide whether a request should use chunked map-reduce generation
    */
-  async generateTimestamps(request: TimestampGenerationRequest) {
-    const { srtContent, metadata } = request;
+  private shouldUseChunkedMode(request: TimestampGenerationRequest): boolean {
+    const mode = request.mode ?? "auto";
+
+    if (!request.subtitle || mode === "single") return false;
+    if (mode === "chunked") return true;
+
+    return request.metadata.durationInSeconds > CHUNKED_MODE_THRESHOLD_SECONDS;
+  }
+
+  /**
+   * Entries to prompt with: cleaned when cleanup is requested, otherwise as parsed
+   */
+  private getPromptEntries(request: TimestampGenerationRequest): SrtEntry[] | undefined {
+    const { subtitle, cleanup } = request;
+    if (!subtitle || !cleanup) return subtitle?.entries;
+
+    const { entries, report } = cleanupTranscript(subtitle.entries, cleanup);
+    this.logCleanupReport(report);
+
+    // Cleanup that leaves nothing (e.g. a music-only file) falls back to the original cues
+    return entries.length > 0 ? entries : subtitle.entries;
+  }
+
+  /**
+   * Render entries as a transcript block, keeping caption formats as SRT
+   */
+  private formatTranscript(entries: SrtEntry[], format: string) {
+    return RAW_PROMPT_FORMATS.includes(format)
+      ? { content: serializeSrt(entries), format: "srt" }
+      : { content: getTimestampedTranscript(entries), format: "text" };
+  }
+
+  /**
+   * Build the transcript block embedded in the prompt
+   */
+  private buildPromptTranscript(request: TimestampGenerationRequest, entries?: SrtEntry[]) {
+    const { srtContent, subtitle, metadata } = request;
+
+    // Unmodified caption files are sent exactly as uploaded
+    const isUnmodifiedCaptionFile =
+      entries === subtitle?.entries && RAW_PROMPT_FORMATS.includes(subtitle?.format ?? "");
+    if (!subtitle || !entries || isUnmodifiedCaptionFile) {
+      return { content: srtContent, format: metadata.format };
+    }
+
+    return this.formatTranscript(entries, subtitle.format);
+  }
+
+  /**
+   * Log what the transcript cleanup removed
+   */
+  private logCleanupReport(report: CleanupReport): void {
+    console.log(
+      `🧹 Transcript cleanup: ${report.entriesBefore} → ${report.entriesAfter} cues ` +
+        `(${report.duplicatesRemoved} rolling repeats, ${report.fillersRemoved} fillers, ` +
+        `${report.soundTagsRemoved} sound tags, ${report.cuesMerged} merged)`
+    );
+    console.log(
+      `🪙 Estimated prompt tokens: ${report.estimatedTokensBefore} → ${report.estimatedTokensAfter} ` +
+        `(saved ~${report.estimatedTokensSaved})`
+    );
+  }
+
+  /**
+   * Generate timestamps from the whole transcript in one prompt with retry logic
+   */
+  private async generateSingleTimestamps(
+    request: TimestampGenerationRequest,
+    diagnostics: GenerationDiagnostics,
+    entries?: SrtEntry[]
+  ): Promise<TimestampResponse> {
+    const { metadata } = request;
+    const transcript = this.buildPromptTranscript(request, entries);
+
+    const drafts = this.createDraftEmitter(diagnostics, 0);
 
     // Use retry wrapper for resilience
     return withExponentialRetry(
       async () => {
+        drafts.reset();
+
         // 1. Build the prompt
         const systemPrompt = this.promptBuilder.buildSystemPrompt({
-          srtContent,
+          srtContent: transcript.content,
           durationInSeconds: metadata.durationInSeconds,
           durationFormatted: metadata.durationFormatted,
           isLongContent: metadata.isLongContent,
           endTimestamp: "", // Will be calculated by PromptBuilder
+          format: transcript.format,
+          speakers: metadata.speakers,
+          promptVersion: request.promptVersion,
+          promptTemplate: request.promptTemplate,
+          styleProfile: request.styleProfile,
+          density: request.density,
         });
 
-        // 2. Stream AI response with validation
-        const result = await this.aiClient.streamObject(
-          systemPrompt,
-          metadata.isLongContent,
-          {
-            onFinish: (object, error) => {
-              if (error) {
-                console.error("Generation finished with error:", error);
-                return;
-              }
-
-              if (object && object.keyMoments && object.keyMoments.length > 0) {
-                // Check if last timestamp is significantly before video end
-                const lastTime = object.keyMoments[object.keyMoments.length - 1].time;
-                const lastTimeParts = lastTime.split(":").map(Number);
-                const lastTimeSeconds =
-                  lastTimeParts.length === 3
-                    ? lastTimeParts[0] * 3600 + lastTimeParts[1] * 60 + lastTimeParts[2]
-                    : lastTimeParts[0] * 60 + lastTimeParts[1];
-
-                const timeDifference = metadata.durationInSeconds - lastTimeSeconds;
-
-                if (timeDifference > 300) {
-                  // More than 5 minutes short
-                  console.warn(
-                    `⚠️  WARNING: Last timestamp (${lastTime}) is ${Math.floor(
-                      timeDifference / 60
-                    )} minutes before video end`
-                  );
-                }
-              }
-            },
-          }
-        );
+        // 2. Stream AI response with validation and wait for the final object
+        return this.aiClient.generateObject(systemPrompt, metadata.isLongContent, {
+          onFinish: (_object, error) => {
+            if (error) {
+              console.error("Generation finished with error:", error);
+            }
+          },
+          onNormalize: (changedCount) => {
+            diagnostics.normalizationChanges += changedCount;
+          },
+          onPartialObject: (partial) => {
+            const draftedTimes = drafts
+              .emit(partial)
+              .map((moment) => parseMomentTime(moment.time))
+              .filter(Number.isFinite);
+            // A zero-length transcript has no position to report progress against
+            if (draftedTimes.length === 0 || metadata.durationInSeconds <= 0) return;
 
-        return result;
+            const reached = Math.min(Math.max(...draftedTimes), metadata.durationInSeconds);
+            this.reportProgress(
+              diagnostics,
+              "generating",
+              GENERATION_PROGRESS_SHARE * (reached / metadata.durationInSeconds),
+              `Drafted timestamps up to ${formatMomentTime(reached, metadata.isLongContent)} ` +
+                `of ${metadata.durationFormatted}`
+            );
+          },
+        });
       },
       {
-        ...DEFAULT_RETRY_CONFIG,
-        onRetry: (attempt, error) => {
-          console.error(`Attempt ${attempt} failed:`, error);
-          
-          // Log additional details for NoObjectGeneratedError
-          if (GeminiClient.isNoObjectError(error)) {
-            console.error("NoObjectGeneratedError details:", {
-              cause: error.cause,
-              text: error.text?.substring(0, 200),
-              usage: error.usage,
-            });
-          }
-        },
+        ...this.retryConfig,
+        onRetry: this.createRetryHandler(diagnostics),
+      }
+    );
+  }
+
+  /**
+   * Generate timestamps window by window and merge them (map-reduce)
+   * Windows are generated in parallel; a window that fails after retries is skipped
+   */
+  private async generateChunkedTimestamps(
+    request: TimestampGenerationRequest,
+    entries: SrtEntry[],
+    diagnostics: GenerationDiagnostics
+  ): Promise<TimestampResponse> {
+    const { metadata } = request;
+
+    const chunks = splitIntoChunks(entries, metadata.durationInSeconds);
+    console.log(
+      `🧩 Chunked generation: ${chunks.length} windows for ${metadata.durationFormatted} of video`
+    );
+
+    let completedChunks = 0;
+    const chunkMoments = await mapWithConcurrency(chunks, MAX_PARALLEL_CHUNKS, async (chunk) => {
+      const moments = await this.generateWindowMoments(chunk, request, diagnostics, true);
+      completedChunks++;
+      this.reportProgress(
+        diagnostics,
+        "generating",
+        GENERATION_PROGRESS_SHARE * (completedChunks / chunks.length),
+        `Generated part ${completedChunks} of ${chunks.length}`
+      );
+      return moments;
+    });
+
+    if (chunkMoments.every((moments) => moments.length === 0)) {
+      throw new Error("Failed to generate timestamps for any part of the transcript");
+    }
+
+    const keyMoments = reduceChunkMoments(
+      chunkMoments,
+      chunks,
+      metadata.durationInSeconds,
+      metadata.isLongContent,
+      resolveMomentCount(request.density, metadata.durationInSeconds)
+    );
+
+    const candidateCount = chunkMoments.reduce((total, moments) => total + moments.length, 0);
+    console.log(
+      `✅ Reduced ${candidateCount} candidate moments to ${keyMoments.length} timestamps`
+    );
+
+    return { keyMoments };
+  }
+
+  /**
+   * Re-prompt for stretches of the video without key moments and splice the results in
+   * Covers tail truncation (the model stopping early) and long internal gaps
+   * Gaps left afterwards (or found with repair disabled) are reported as coverage warnings
+   */
+  private async repairCoverageGaps(
+    request: TimestampGenerationRequest,
+    response: TimestampResponse,
+    diagnostics: GenerationDiagnostics,
+    entries?: SrtEntry[]
+  ): Promise<TimestampResponse> {
+    const { metadata, coverageRepair } = request;
+    const config = { ...DEFAULT_COVERAGE_CONFIG, ...coverageRepair };
+    const gaps = findCoverageGaps(response.keyMoments, metadata.durationInSeconds, config);
+
+    if (!entries || !coverageRepair || gaps.length === 0) {
+      this.recordCoverageGaps(gaps, metadata, diagnostics);
+      return response;
+    }
+
+    this.reportProgress(
+      diagnostics,
+      "repairing",
+      GENERATION_PROGRESS_SHARE,
+      `Filling ${gaps.length} ${gaps.length === 1 ? "range" : "ranges"} without timestamps`
+    );
+    for (const gap of gaps) {
+      console.warn(
+        `⚠️  WARNING: No timestamps ${gap.kind === "tail" ? "before video end" : "in range"} ` +
+          `${formatRange(gap.startSeconds, gap.endSeconds, metadata.isLongContent)}, re-prompting`
+      );
+    }
+
+    const repairs = await this.generateGapMoments(gaps, request, diagnostics, entries);
+    const keyMoments = spliceGapMoments(
+      response.keyMoments,
+      repairs,
+      metadata.isLongContent,
+      config
+    );
+    console.log(
+      `🩹 Coverage repair added ${keyMoments.length - response.keyMoments.length} timestamps ` +
+        `across ${gaps.length} gaps`
+    );
+
+    const remainingGaps = findCoverageGaps(keyMoments, metadata.durationInSeconds, config);
+    this.recordCoverageGaps(remainingGaps, metadata, diagnostics);
+
+    return { keyMoments };
+  }
+
+  /**
+   * Generate candidate moments for each range from the cues that start inside it
+   */
+  private async generateGapMoments(
+    gaps: CoverageGap[],
+    request: TimestampGenerationRequest,
+    diagnostics: GenerationDiagnostics,
+    entries: SrtEntry[]
+  ): Promise<Array<{ gap: CoverageGap; moments: KeyMoment[] }>> {
+    return mapWithConcurrency(gaps, MAX_PARALLEL_CHUNKS, async (gap) => {
+      const gapEntries = entries.filter((entry) => {
+        const start = timestampToSeconds(entry.startTime);
+        return start >= gap.startSeconds && start < gap.endSeconds;
+      });
+      if (gapEntries.length === 0) return { gap, moments: [] };
+
+      const window: TranscriptChunk = {
+        index: 0,
+        startSeconds: gap.startSeconds,
+        endSeconds: gap.endSeconds,
+        entries: gapEntries,
+      };
+      const moments = await this.generateWindowMoments(window, request, diagnostics);
+      return { gap, moments };
+    });
+  }
+
+  /**
+   * Record uncovered ranges as coverage warnings
+   */
+  private recordCoverageGaps(
+    gaps: CoverageGap[],
+    metadata: SrtMetadata,
+    diagnostics: GenerationDiagnostics
+  ): void {
+    for (const gap of gaps) {
+      const range = formatRange(gap.startSeconds, gap.endSeconds, metadata.isLongContent);
+      const message =
+        gap.kind === "tail"
+          ? `No timestamps before the video end (${range})`
+          : `No timestamps in ${range}`;
+      diagnostics.coverageWarnings.push(message);
+      this.addWarning(diagnostics, gap.kind === "tail" ? "tail-truncated" : "coverage-gap", message);
+    }
+  }
+
+  /**
+   * Snap moment times to real cue starts and flag or drop descriptions the cues don't support
+   */
+  private verifyGrounding(
+    request: TimestampGenerationRequest,
+    response: TimestampResponse,
+    diagnostics: GenerationDiagnostics,
+    entries?: SrtEntry[]
+  ): TimestampResponse {
+    const { metadata, grounding } = request;
+    if (!entries || !grounding) return response;
+
+    this.reportProgress(diagnostics, "grounding", 0.92, "Checking timestamps against the captions");
+    const { keyMoments, report } = groundKeyMoments(
+      response.keyMoments,
+      entries,
+      metadata.isLongContent,
+      { ...DEFAULT_GROUNDING_CONFIG, ...grounding }
+    );
+
+    console.log(
+      `🎯 Grounding: snapped ${report.snapped} timestamps to cue starts, ` +
+        `average overlap ${report.averageScore.toFixed(2)}`
+    );
+    if (report.flagged > 0) {
+      this.addWarning(
+        diagnostics,
+        "ungrounded-moments",
+        `${report.flagged} ${report.flagged === 1 ? "description doesn't" : "descriptions don't"} ` +
+          "closely match the captions at their time"
+      );
+    }
+    if (report.dropped > 0) {
+      this.addWarning(
+        diagnostics,
+        "ungrounded-moments",
+        `Removed ${report.dropped} ${report.dropped === 1 ? "timestamp" : "timestamps"} ` +
+          "the captions don't support"
+      );
+    }
+    if (report.flagged > 0 || report.dropped > 0) {
+      console.warn(
+        `⚠️  WARNING: ${report.flagged} flagged and ${report.dropped} dropped ungrounded moments`
+      );
+    }
+
+    return { keyMoments };
+  }
+
+  /**
+   * Bring the number of key moments into the requested range
+   * Too few: re-prompt once for the sparsest stretches and splice the new moments in
+   * Too many: merge the shortest chapters into the one before them
+   * Counts include the intro chapter the chapter rules will insert
+   */
+  private async enforceMomentCount(
+    request: TimestampGenerationRequest,
+    response: TimestampResponse,
+    diagnostics: GenerationDiagnostics,
+    entries?: SrtEntry[]
+  ): Promise<TimestampResponse> {
+    const { metadata, density } = request;
+    const range = resolveMomentCount(density, metadata.durationInSeconds);
+    if (!range) return response;
+
+    let { keyMoments } = response;
+    const fixes: string[] = [];
+
+    const missing = range.min - countChapters(keyMoments);
+    if (missing > 0 && entries) {
+      const gaps = findSparsestRanges(
+        keyMoments,
+        metadata.durationInSeconds,
+        Math.min(missing, MAX_PARALLEL_CHUNKS)
+      );
+      this.reportProgress(
+        diagnostics,
+        "repairing",
+        0.88,
+        `Requesting ${missing} more ${missing === 1 ? "timestamp" : "timestamps"}`
+      );
+
+      const repairs = await this.generateGapMoments(gaps, request, diagnostics, entries);
+      // Requested moments may sit closer together than coverage repair normally allows
+      const minGapSeconds = Math.max(
+        YOUTUBE_CHAPTER_RULES.minChapterSeconds,
+        Math.min(
+          DEFAULT_COVERAGE_CONFIG.minGapSeconds,
+          Math.floor(metadata.durationInSeconds / (2 * range.min))
+        )
+      );
+      const spliced = spliceGapMoments(keyMoments, repairs, metadata.isLongContent, {
+        ...DEFAULT_COVERAGE_CONFIG,
+        minGapSeconds,
+      });
+      const added = spliced.length - keyMoments.length;
+      if (added > 0) {
+        fixes.push(
+          `Added ${added} ${added === 1 ? "timestamp" : "timestamps"} ` +
+            `to reach the requested ${range.min}`
+        );
       }
+      keyMoments = spliced;
+    }
+
+    const introSlots = countChapters(keyMoments) - keyMoments.length;
+    if (countChapters(keyMoments) > range.max) {
+      this.reportProgress(
+        diagnostics,
+        "finalizing",
+        0.9,
+        `Merging timestamps down to ${range.max}`
+      );
+      const { keyMoments: mergedMoments, merged } = mergeToMaxCount(
+        keyMoments,
+        range.max - introSlots,
+        metadata.durationInSeconds,
+        metadata.isLongContent
+      );
+      fixes.push(
+        `Merged ${merged} ${merged === 1 ? "timestamp" : "timestamps"} ` +
+          `to stay within the requested ${range.max}`
+      );
+      keyMoments = mergedMoments;
+    }
+
+    for (const fix of fixes) {
+      console.log(`📏 Density fix: ${fix}`);
+    }
+    diagnostics.densityFixes.push(...fixes);
+
+    return { keyMoments };
+  }
+
+  /**
+   * Warn when the final key moments still fall outside the requested range
+   */
+  private checkMomentCount(
+    request: TimestampGenerationRequest,
+    response: TimestampResponse,
+    diagnostics: GenerationDiagnostics
+  ): void {
+    const range = resolveMomentCount(request.density, request.metadata.durationInSeconds);
+    const count = response.keyMoments.length;
+    if (!range || (count >= range.min && count <= range.max)) return;
+
+    const requested =
+      range.min === range.max
+        ? `the ${range.min} requested`
+        : count < range.min
+          ? `the requested minimum of ${range.min}`
+          : `the requested maximum of ${range.max}`;
+    const message = `Generated ${count} timestamps instead of ${requested}`;
+    this.addWarning(diagnostics, "moment-count", message);
+    console.warn(`⚠️  WARNING: ${message}`);
+  }
+
+  /**
+   * Enforce the channel style profile's wording rules on the final descriptions
+   */
+  private applyChannelStyle(
+    request: TimestampGenerationRequest,
+    response: TimestampResponse,
+    diagnostics: GenerationDiagnostics
+  ): TimestampResponse {
+    const { styleProfile } = request;
+    if (!styleProfile) return response;
+
+    this.reportProgress(diagnostics, "finalizing", 0.95, `Applying the ${styleProfile.name} style`);
+    const { keyMoments, fixes, dropped, tooShort } = applyStyleProfile(
+      response.keyMoments,
+      styleProfile
     );
+
+    for (const fix of fixes) {
+      console.log(`🎨 Style fix: ${fix}`);
+    }
+    diagnostics.styleFixes.push(...fixes);
+    if (dropped > 0) {
+      this.addWarning(
+        diagnostics,
+        "banned-words",
+        `Removed ${dropped} ${dropped === 1 ? "timestamp" : "timestamps"} ` +
+          "whose description was only banned words or emoji"
+      );
+    }
+    if (tooShort > 0) {
+      this.addWarning(
+        diagnostics,
+        "description-length",
+        `${tooShort} ${tooShort === 1 ? "description is" : "descriptions are"} shorter than ` +
+          `the ${styleProfile.descriptionWords?.min} words the ${styleProfile.name} style asks for`
+      );
+    }
+
+    return { keyMoments };
+  }
+
+  /**
+   * Auto-fix YouTube chapter rule violations and log what could not be fixed
+   */
+  private applyChapterRules(
+    response: TimestampResponse,
+    metadata: SrtMetadata,
+    diagnostics: GenerationDiagnostics
+  ): TimestampResponse {
+    this.reportProgress(diagnostics, "finalizing", 0.97, "Applying YouTube chapter rules");
+    const { keyMoments, fixes, violations } = fixChapters(
+      response.keyMoments,
+      metadata.durationInSeconds,
+      metadata.isLongContent
+    );
+
+    for (const fix of fixes) {
+      console.log(`🔧 Chapter fix: ${fix}`);
+    }
+    diagnostics.chapterFixes.push(...fixes);
+    for (const violation of violations) {
+      this.addWarning(diagnostics, "chapter-rules", violation.message);
+      console.warn(`⚠️  WARNING: Chapter rule still broken: ${violation.message}`);
+    }
+
+    return { keyMoments };
+  }
+
+  /**
+   * Generate candidate moments for a single transcript window
+   * Returns an empty list when the window still fails after retries
+   * With `emitDrafts`, the window's moments are also reported as drafts while they stream
+   */
+  private async generateWindowMoments(
+    window: TranscriptChunk,
+    request: TimestampGenerationRequest,
+    diagnostics: GenerationDiagnostics,
+    emitDrafts = false
+  ): Promise<KeyMoment[]> {
+    const { subtitle, metadata } = request;
+    const transcript = this.formatTranscript(window.entries, subtitle?.format ?? "srt");
+    const drafts = emitDrafts ? this.createDraftEmitter(diagnostics, window.index) : undefined;
+
+    try {
+      return await withExponentialRetry(
+        async () => {
+          drafts?.reset();
+          const systemPrompt = this.promptBuilder.buildSystemPrompt({
+            srtContent: transcript.content,
+            durationInSeconds: metadata.durationInSeconds,
+            durationFormatted: metadata.durationFormatted,
+            isLongContent: metadata.isLongContent,
+            endTimestamp: "", // Will be calculated by PromptBuilder
+            format: transcript.format,
+            speakers: metadata.speakers,
+            window: { startSeconds: window.startSeconds, endSeconds: window.endSeconds },
+            promptVersion: request.promptVersion,
+            promptTemplate: request.promptTemplate,
+            styleProfile: request.styleProfile,
+            density: request.density,
+          });
+
+          const object = await this.aiClient.generateObject(systemPrompt, metadata.isLongContent, {
+            onNormalize: (changedCount) => {
+              diagnostics.normalizationChanges += changedCount;
+            },
+            onPartialObject: drafts && ((partial) => drafts.emit(partial)),
+          });
+          return object.keyMoments;
+        },
+        {
+          ...this.retryConfig,
+          onRetry: this.createRetryHandler(diagnostics),
+        }
+      );
+    } catch (error) {
+      drafts?.reset();
+      this.addWarning(
+        diagnostics,
+        "window-failed",
+        `Couldn't generate timestamps for ` +
+          formatRange(window.startSeconds, window.endSeconds, metadata.isLongContent)
+      );
+      console.error(
+        `❌ Window ${formatRange(window.startSeconds, window.endSeconds, metadata.isLongContent)} ` +
+          "failed after retries:",
+        error
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Report a window's key moments as drafts as soon as the model completes them
+   * `reset` discards the drafts so far with a "reset" event, before a retry or after a failure
+   */
+  private createDraftEmitter(diagnostics: GenerationDiagnostics, window: number) {
+    let drafted = 0;
+
+    return {
+      reset: () => {
+        if (drafted > 0) diagnostics.emit({ type: "reset", window });
+        drafted = 0;
+      },
+      // Returns the moments completed so far
+      emit: (partial: DeepPartial<TimestampResponse>): KeyMoment[] => {
+        // The last drafted moment may still be streaming, so only the ones before it are used
+        const completed = (partial.keyMoments ?? [])
+          .slice(0, -1)
+          .flatMap((moment) =>
+            moment?.time && moment.description
+              ? [{ time: moment.time, description: moment.description }]
+              : []
+          );
+        for (; drafted < completed.length; drafted++) {
+          diagnostics.emit({ type: "moment", window, index: drafted, moment: completed[drafted] });
+        }
+        return completed;
+      },
+    };
+  }
+
+  /**
+   * Retry callback that counts failed attempts and reports them as retry events
+   */
+  private createRetryHandler(diagnostics: GenerationDiagnostics) {
+    return (attempt: number, error: Error) => {
+      diagnostics.retryCount++;
+      diagnostics.emit({ type: "retry", attempt, error: error.message });
+      this.logRetry(attempt, error);
+    };
+  }
+
+  /**
+   * Log a failed attempt, including details for NoObjectGeneratedError
+   */
+  private logRetry(attempt: number, error: Error): void {
+    console.error(`Attempt ${attempt} failed:`, error);
+
+    // Log additional details for NoObjectGeneratedError
+    if (StreamingModelClient.isNoObjectError(error)) {
+      console.error("NoObjectGeneratedError details:", {
+        cause: error.cause,
+        text: error.text?.substring(0, 200),
+        usage: error.usage,
+      });
+    }
   }
 }
@@ -2,22 +2,58 @@
  * Type definitions for timestamp generation service
  */
 
+import type { PromptTemplate } from "@/lib/prompts";
+import type { ParsedSubtitle } from "@/lib/subtitle-formats";
+import type { CleanupOptions } from "@/lib/transcript-cleanup";
+import type { CoverageConfig } from "@/lib/timestamp-utils/coverage";
+import type { DensityOptions } from "@/lib/timestamp-utils/density";
+import type { GroundingConfig } from "@/lib/timestamp-utils/grounding";
+import type { StyleProfile } from "@/lib/timestamp-utils/style-profile";
+
 export interface SrtMetadata {
   durationInSeconds: number;
   durationFormatted: string;
   isLongContent: boolean; // > 1 hour
   entriesCount?: number;
+  format?: string; // Detected subtitle format id (e.g. "srt", "vtt")
+  speakers?: string[]; // Distinct speakers detected in the cues
 }
 
+// "single" sends the whole transcript in one prompt, "chunked" generates window by window
+// and merges the results, "auto" picks chunked for very long videos
+export type GenerationMode = "single" | "chunked" | "auto";
+
 export interface TimestampGenerationRequest {
-  srtContent: string;
+  srtContent: string; // Raw subtitle content in any registered format
+  subtitle?: ParsedSubtitle; // Parsed entries, used to normalize non-caption formats for the prompt
   metadata: SrtMetadata;
+  cleanup?: Partial<CleanupOptions>; // Clean up the transcript before prompting when set
+  mode?: GenerationMode; // Defaults to "auto"
+  coverageRepair?: Partial<CoverageConfig>; // Re-prompt for uncovered ranges when set
+  grounding?: Partial<GroundingConfig>; // Snap times to cues and check descriptions when set
+  promptVersion?: string; // Prompt template version, defaults to DEFAULT_PROMPT_VERSION
+  promptTemplate?: PromptTemplate; // Custom template, used instead of promptVersion
+  styleProfile?: StyleProfile; // Channel style injected into the prompt and enforced afterwards
+  density?: DensityOptions; // Requested number of key moments, enforced after generation
 }
 
+// Machine-readable warnings attached to a result
+export type GenerationWarningFlag =
+  | "retried" // At least one model call failed and was retried
+  | "window-failed" // A transcript window failed after retries and was skipped
+  | "coverage-gap" // A long stretch inside the video has no timestamps
+  | "tail-truncated" // The end of the video has no timestamps
+  | "ungrounded-moments" // Some descriptions don't match the captions at their time
+  | "chapter-rules" // YouTube chapter rules are still broken after auto-fixing
+  | "banned-words" // Descriptions made only of banned words or emoji were removed
+  | "description-length" // Some descriptions are shorter than the style profile's minimum
+  | "moment-count"; // The number of key moments is outside the requested range
+
 export interface GenerationResult {
   keyMoments: Array<{
     time: string;
     description: string;
+    ungrounded?: boolean;
   }>;
   metadata: {
     totalMoments: number;
@@ -25,6 +61,49 @@ export interface GenerationResult {
       first: string;
       last: string;
     };
-    warningFlags?: string[];
+    warningFlags?: GenerationWarningFlag[];
+    durationInSeconds: number;
+    durationFormatted: string;
+    format: string; // Detected subtitle format id
+    mode: Exclude<GenerationMode, "auto">; // Generation mode actually used
+    model: string; // "<provider>:<model id>" that generated the moments
+    promptVersion: string; // Prompt template version used
+    styleProfile?: string; // Name of the channel style profile applied
+    retryCount: number; // Failed model attempts across all prompts
+    normalizationChanges: number; // Model timestamps rewritten to the MM:SS / HH:MM:SS convention
+    coverageWarnings: string[]; // Uncovered ranges left after coverage repair
+    chapterFixes: string[]; // Automatic YouTube chapter rule fixes
+    styleFixes: string[]; // Changes made to enforce the channel style profile
+    densityFixes: string[]; // Key moments added or merged to meet the requested count
   };
 }
+
+// Pipeline stage reported by progress events
+export type GenerationStage = "generating" | "repairing" | "grounding" | "finalizing";
+
+// Events emitted while generating, streamed to clients as NDJSON (one JSON object per line)
+export type GenerationEvent =
+  | {
+      type: "metadata";
+      durationInSeconds: number;
+      durationFormatted: string;
+      format: string;
+      mode: Exclude<GenerationMode, "auto">;
+      entriesCount?: number;
+    }
+  | { type: "progress"; stage: GenerationStage; progress: number; message: string } // progress: 0..1
+  | { type: "warning"; flag: GenerationWarningFlag; message: string }
+  | { type: "retry"; attempt: number; error: string }
+  // Draft, as soon as the model completes it; window is the transcript window (0 in single mode)
+  | {
+      type: "moment";
+      window: number;
+      index: number;
+      moment: GenerationResult["keyMoments"][number];
+    }
+  | { type: "reset"; window: number } // Discards a window's drafts when it's retried or fails
+  | { type: "moments"; keyMoments: GenerationResult["keyMoments"] } // Final, replaces the drafts
+  | { type: "done"; metadata: GenerationResult["metadata"] }
+  | { type: "error"; error: string; details?: string };
+
+export type GenerationEventListener = (event: GenerationEvent) => void;
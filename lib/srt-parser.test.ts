@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { parseSrtContent, parseSrtContentLenient, serializeSrt } from "./srt-parser";
+
+const SRT = `1
+00:00:01,000 --> 00:00:04,000
+Welcome back to the stream
+
+2
+00:00:04,500 --> 00:00:08,250
+RAY: Today we're building
+a timestamp generator
+
+3
+00:00:08,250 --> 00:00:12,000
+- GUEST: Sounds good
+- RAY: Let's go
+
+4
+00:00:12,500 --> 00:00:15,750
+<i>Italic line</i> with &amp; entity
+`;
+
+describe("serializeSrt", () => {
+  test("parse(serialize(parse(x))) is stable", () => {
+    const parsed = parseSrtContent(SRT);
+    const reparsed = parseSrtContent(serializeSrt(parsed));
+
+    expect(reparsed).toEqual(parsed);
+    expect(serializeSrt(reparsed)).toBe(serializeSrt(parsed));
+  });
+
+  test("keeps multi-line cues line by line", () => {
+    const [, cue] = parseSrtContent(serializeSrt(parseSrtContent(SRT)));
+
+    expect(cue.lines).toEqual(["RAY: Today we're building", "a timestamp generator"]);
+    expect(cue.plainText).toBe("Today we're building a timestamp generator");
+  });
+
+  test("keeps speaker labels and dialogue dashes", () => {
+    const entries = parseSrtContent(serializeSrt(parseSrtContent(SRT)));
+
+    expect(entries[1].speaker).toBe("RAY");
+    expect(entries[2].speaker).toBe("GUEST");
+    expect(entries[2].lines).toEqual(["- GUEST: Sounds good", "- RAY: Let's go"]);
+  });
+
+  test("keeps markup in the lines and strips it from the plain text", () => {
+    const entries = parseSrtContent(serializeSrt(parseSrtContent(SRT)));
+
+    expect(entries[3].lines).toEqual(["<i>Italic line</i> with &amp; entity"]);
+    expect(entries[3].plainText).toBe("Italic line with & entity");
+  });
+
+  test("normalizes lenient timings once", () => {
+    const { entries } = parseSrtContentLenient("7\n0:00:12.5 --> 0:00:15.75\nLoose timing\n");
+    const reparsed = parseSrtContent(serializeSrt(entries));
+
+    expect(reparsed).toEqual([{ ...entries[0], id: 1 }]);
+    expect(reparsed[0].startTime).toBe("00:00:12,500");
+    expect(reparsed[0].endTime).toBe("00:00:15,750");
+  });
+});
+
+describe("parseSrtContentLenient", () => {
+  test("recovers missing numbers, loose timing and blank lines inside a cue", () => {
+    const { entries, warnings } = parseSrtContentLenient(
+      "1\n00:00:01,000 --> 00:00:03,000\nFirst\n\n0:00:04.5-->0:00:06.25\nSecond\n\nstill second\n"
+    );
+
+    expect(entries.map((entry) => [entry.id, entry.startTime, entry.text])).toEqual([
+      [1, "00:00:01,000", "First"],
+      [2, "00:00:04,500", "Second still second"],
+    ]);
+    expect(warnings.map((warning) => [warning.line, warning.action, warning.message])).toEqual([
+      [
+        5,
+        "fixed",
+        'Normalized timing line "0:00:04.5-->0:00:06.25" to "00:00:04,500 --> 00:00:06,250"',
+      ],
+      [5, "fixed", "Missing cue number, assigned 2"],
+      [7, "fixed", "Joined cue text separated by a blank line"],
+    ]);
+  });
+
+  test("skips unreadable, empty and backwards cues with their line numbers", () => {
+    const { entries, warnings } = parseSrtContentLenient(
+      [
+        "Kind: captions",
+        "",
+        "1",
+        "00:00:01,000 --> soon",
+        "Unreadable",
+        "",
+        "2",
+        "00:00:02,000 --> 00:00:03,000",
+        "",
+        "3",
+        "00:00:05,000 --> 00:00:04,000",
+        "Backwards",
+        "",
+        "4",
+        "00:00:06,000 --> 00:00:07,000",
+        "Kept",
+      ].join("\n")
+    );
+
+    expect(entries.map((entry) => entry.text)).toEqual(["Kept"]);
+    expect(warnings.map((warning) => [warning.line, warning.block, warning.action])).toEqual([
+      [1, 0, "skipped"],
+      [4, 1, "skipped"],
+      [8, 2, "skipped"],
+      [11, 3, "skipped"],
+    ]);
+  });
+
+  test("returns nothing for content without timing lines", () => {
+    expect(parseSrtContentLenient("Just some notes\nabout a video")).toEqual({
+      entries: [],
+      warnings: [],
+    });
+  });
+});
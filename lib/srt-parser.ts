@@ -6,7 +6,160 @@ export interface SrtEntry {
   id: number;
   startTime: string;
   endTime: string;
-  text: string;
+  text: string; // Original lines joined with spaces, markup included
+  lines: string[]; // Original text lines with markup, for round-tripping exports
+  plainText: string; // Markup-free text without the speaker label
+  speaker?: string; // From "SPEAKER:" prefixes, "- NAME:" dialogue dashes, <v Name> voice tags
+  // or "Name:" labels used across the file
+}
+
+export interface SrtParseWarning {
+  line: number; // 1-based line number in the source file
+  block: number; // 1-based index of the cue block the warning refers to (0 = outside any cue)
+  action: "fixed" | "skipped";
+  message: string;
+}
+
+export interface SrtParseResult {
+  entries: SrtEntry[];
+  warnings: SrtParseWarning[];
+}
+
+// Matches an SRT timing line: "00:00:01,000 --> 00:00:04,000"
+export const SRT_TIMING_REGEX = /(\d{2}:\d{2}:\d{2},\d{3}) --> (\d{2}:\d{2}:\d{2},\d{3})/;
+
+// Tolerates single-digit hours, "." or ":" millisecond separators, short milliseconds
+// and irregular whitespace or dashes around the arrow
+const LENIENT_TIMING_REGEX =
+  /^\s*(\d{1,2}):(\d{2}):(\d{2})[,.:](\d{1,3})\s*-{1,2}>\s*(\d{1,2}):(\d{2}):(\d{2})[,.:](\d{1,3})(?:\s.*)?$/;
+
+// "<v Ray>" or "<v.loud Ray>" WebVTT voice spans
+const VOICE_TAG_REGEX = /<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+
+// "RAY:", "SPEAKER 1:" or "- GUEST:" at the start of a line (up to three all-caps words)
+const SPEAKER_LABEL_REGEX = /^(?:[-–]\s*)?([A-Z][A-Z0-9.'-]+(?: [A-Z0-9][A-Z0-9.'-]*){0,2}):\s+/;
+
+// "Ray Fernando:" (up to three capitalized words), only a speaker when used across the file,
+// since "Note:" or "Today:" are ordinary caption text
+const NAME_LABEL_REGEX = /^(?:[-–]\s*)?((?:[A-Z][\w.'-]*)(?: [A-Z][\w.'-]*){0,2}):\s+/;
+
+// Cues a capitalized label must start before it's treated as a speaker
+const MIN_NAME_LABEL_CUES = 3;
+
+/**
+ * Remove HTML-style tags (<i>, <font>, <c>, <v>), ASS override blocks ({\an8})
+ * and common entities from subtitle text
+ */
+export function stripSubtitleMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Detect the speaker of a cue from voice tags, speaker labels or labelled dialogue dashes
+ * Capitalized labels such as "Ray Fernando:" only count when listed in `knownSpeakers`
+ * Returns the speaker (if any) and the cue's lines with the label removed
+ */
+export function detectSpeaker(
+  lines: string[],
+  knownSpeakers?: ReadonlySet<string>
+): { speaker?: string; lines: string[] } {
+  const voiceMatch = lines.join(" ").match(VOICE_TAG_REGEX);
+  if (voiceMatch) {
+    return { speaker: voiceMatch[1].trim(), lines };
+  }
+
+  const plainFirstLine = stripSubtitleMarkup(lines[0] ?? "");
+  const nameMatch = plainFirstLine.match(NAME_LABEL_REGEX);
+  const labelMatch =
+    plainFirstLine.match(SPEAKER_LABEL_REGEX) ??
+    (nameMatch && knownSpeakers?.has(nameMatch[1]) ? nameMatch : null);
+  if (labelMatch) {
+    return {
+      speaker: labelMatch[1],
+      lines: [plainFirstLine.slice(labelMatch[0].length), ...lines.slice(1)],
+    };
+  }
+
+  return { lines };
+}
+
+/**
+ * Build an entry from its original text lines, deriving text, plainText and speaker
+ * Shared by every subtitle parser so all formats produce the same cue model
+ * `speakerLabels` lists capitalized labels confirmed as speakers elsewhere in the file
+ */
+export function createSrtEntry(
+  id: number,
+  startTime: string,
+  endTime: string,
+  lines: string[],
+  speaker?: string,
+  speakerLabels?: ReadonlySet<string>
+): SrtEntry {
+  const originalLines = lines.map((line) => line.trim()).filter(Boolean);
+  const knownSpeakers = speaker ? new Set([...(speakerLabels ?? []), speaker]) : speakerLabels;
+  const detected = detectSpeaker(originalLines, knownSpeakers);
+
+  // Dialogue dashes mark a change of speaker; drop them from the plain text
+  const plainText = detected.lines
+    .map((line) => stripSubtitleMarkup(line).replace(/^[-–]\s+/, ""))
+    .filter(Boolean)
+    .join(" ");
+
+  const entry: SrtEntry = {
+    id,
+    startTime,
+    endTime,
+    text: originalLines.join(" "),
+    lines: originalLines,
+    plainText,
+  };
+
+  const detectedSpeaker = speaker ?? detected.speaker;
+  if (detectedSpeaker) {
+    entry.speaker = detectedSpeaker;
+  }
+
+  return entry;
+}
+
+/**
+ * Treat capitalized labels ("Ray Fernando:") as speakers once they start several cues
+ * A label that appears only once or twice is more likely caption text and is left in place
+ */
+export function confirmSpeakerLabels(entries: SrtEntry[]): SrtEntry[] {
+  const labelCounts = new Map<string, number>();
+  for (const entry of entries) {
+    const match =
+      !entry.speaker && stripSubtitleMarkup(entry.lines[0] ?? "").match(NAME_LABEL_REGEX);
+    if (match) labelCounts.set(match[1], (labelCounts.get(match[1]) ?? 0) + 1);
+  }
+
+  const speakerLabels = new Set(
+    [...labelCounts].filter(([, count]) => count >= MIN_NAME_LABEL_CUES).map(([label]) => label)
+  );
+  if (speakerLabels.size === 0) return entries;
+
+  return entries.map((entry) =>
+    entry.speaker
+      ? entry
+      : createSrtEntry(
+          entry.id,
+          entry.startTime,
+          entry.endTime,
+          entry.lines,
+          undefined,
+          speakerLabels
+        )
+  );
 }
 
 /**
@@ -28,30 +181,176 @@ export function parseSrtContent(content: string): SrtEntry[] {
     if (isNaN(id)) continue;
 
     // Second line contains the timestamps
-    const timeMatch = lines[1].match(/(\d{2}:\d{2}:\d{2},\d{3}) --> (\d{2}:\d{2}:\d{2},\d{3})/);
+    const timeMatch = lines[1].match(SRT_TIMING_REGEX);
     if (!timeMatch) continue;
 
     const [, startTime, endTime] = timeMatch;
 
     // Remaining lines are the text content
-    const text = lines.slice(2).join(" ").trim();
+    entries.push(createSrtEntry(id, startTime, endTime, lines.slice(2)));
+  }
+
+  return entries;
+}
+
+/**
+ * Normalize the captured parts of a lenient timing match to HH:MM:SS,mmm
+ */
+function formatLenientTimestamp(hours: string, minutes: string, seconds: string, ms: string) {
+  return `${hours.padStart(2, "0")}:${minutes}:${seconds},${ms.padEnd(3, "0")}`;
+}
+
+/**
+ * Parse SRT content tolerantly, recovering common malformations
+ * Recovers missing or non-numeric cue numbers, single-digit hours, "." millisecond
+ * separators, irregular spacing around "-->" and blank lines inside cue text.
+ * Every recovery or skipped block is reported as a warning with its line number.
+ */
+export function parseSrtContentLenient(content: string): SrtParseResult {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const entries: SrtEntry[] = [];
+  const warnings: SrtParseWarning[] = [];
+
+  // Every line that looks like a timing line starts a new cue block
+  const timingIndexes = lines
+    .map((line, index) => (line.includes("-->") ? index : -1))
+    .filter((index) => index >= 0);
+
+  if (timingIndexes.length === 0) {
+    return { entries, warnings };
+  }
 
-    entries.push({
-      id,
-      startTime,
-      endTime,
-      text,
+  const isCueNumber = (index: number) => index >= 0 && /^\s*\d+\s*$/.test(lines[index]);
+
+  // Content before the first cue (other than its number) cannot be attributed to any cue
+  const firstCueStart = isCueNumber(timingIndexes[0] - 1) ? timingIndexes[0] - 1 : timingIndexes[0];
+  const leadingLine = lines.slice(0, firstCueStart).findIndex((line) => line.trim());
+  if (leadingLine >= 0) {
+    warnings.push({
+      line: leadingLine + 1,
+      block: 0,
+      action: "skipped",
+      message: "Ignored text before the first cue",
     });
   }
 
-  return entries;
+  timingIndexes.forEach((timingIndex, blockIndex) => {
+    const block = blockIndex + 1;
+    const lineNumber = timingIndex + 1;
+
+    // Text runs until the next cue's number (or timing line when the number is missing)
+    const nextTiming = timingIndexes[blockIndex + 1] ?? lines.length;
+    const textEnd =
+      isCueNumber(nextTiming - 1) && nextTiming - 1 > timingIndex ? nextTiming - 1 : nextTiming;
+
+    const timingLine = lines[timingIndex];
+    const timeMatch = timingLine.match(LENIENT_TIMING_REGEX);
+    if (!timeMatch) {
+      warnings.push({
+        line: lineNumber,
+        block,
+        action: "skipped",
+        message: `Unreadable timing line "${timingLine.trim()}"`,
+      });
+      return;
+    }
+
+    const [, startH, startM, startS, startMs, endH, endM, endS, endMs] = timeMatch;
+    const startTime = formatLenientTimestamp(startH, startM, startS, startMs);
+    const endTime = formatLenientTimestamp(endH, endM, endS, endMs);
+
+    const strictMatch = timingLine.match(SRT_TIMING_REGEX);
+    if (!strictMatch || strictMatch[1] !== startTime || strictMatch[2] !== endTime) {
+      warnings.push({
+        line: lineNumber,
+        block,
+        action: "fixed",
+        message: `Normalized timing line "${timingLine.trim()}" to "${startTime} --> ${endTime}"`,
+      });
+    }
+
+    // Cue number
+    const previousId = entries[entries.length - 1]?.id ?? 0;
+    let id = previousId + 1;
+    if (isCueNumber(timingIndex - 1)) {
+      id = parseInt(lines[timingIndex - 1], 10);
+    } else {
+      warnings.push({
+        line: lineNumber,
+        block,
+        action: "fixed",
+        message: `Missing cue number, assigned ${id}`,
+      });
+    }
+
+    // Cue text, trimming trailing blank lines and flagging blank lines inside it
+    const textLines = lines.slice(timingIndex + 1, textEnd);
+    while (textLines.length > 0 && !textLines[textLines.length - 1].trim()) {
+      textLines.pop();
+    }
+
+    const innerBlank = textLines.findIndex((line) => !line.trim());
+    if (innerBlank >= 0) {
+      warnings.push({
+        line: timingIndex + 2 + innerBlank,
+        block,
+        action: "fixed",
+        message: "Joined cue text separated by a blank line",
+      });
+    }
+
+    if (!textLines.some((line) => line.trim())) {
+      warnings.push({ line: lineNumber, block, action: "skipped", message: "Cue has no text" });
+      return;
+    }
+
+    if (timestampToSeconds(endTime) < timestampToSeconds(startTime)) {
+      warnings.push({
+        line: lineNumber,
+        block,
+        action: "skipped",
+        message: `End time ${endTime} is before start time ${startTime}`,
+      });
+      return;
+    }
+
+    entries.push(createSrtEntry(id, startTime, endTime, textLines));
+  });
+
+  return { entries, warnings };
+}
+
+/**
+ * Serialize entries back to SRT content
+ * Entries are renumbered from 1, times are normalized to HH:MM:SS,mmm and multi-line
+ * text is written line by line, so serializeSrt(parseSrtContent(x)) is stable
+ */
+export function serializeSrt(entries: SrtEntry[]): string {
+  return entries
+    .map((entry, index) => {
+      const lines = entry.lines.length > 0 ? entry.lines : [entry.text];
+      return [
+        index + 1,
+        `${normalizeTimestamp(entry.startTime)} --> ${normalizeTimestamp(entry.endTime)}`,
+        ...lines,
+      ].join("\n");
+    })
+    .join("\n\n")
+    .concat("\n");
 }
 
 /**
  * Extract plain text from SRT entries for AI processing
  */
 export function extractTextFromSrt(entries: SrtEntry[]): string {
-  return entries.map((entry) => entry.text).join(" ");
+  return entries.map((entry) => entry.plainText).join(" ");
+}
+
+/**
+ * Get the distinct speakers detected across all entries, in order of first appearance
+ */
+export function getSpeakers(entries: SrtEntry[]): string[] {
+  return [...new Set(entries.flatMap((entry) => (entry.speaker ? [entry.speaker] : [])))];
 }
 
 /**
@@ -62,13 +361,15 @@ export function formatTimestamp(timestamp: string): string {
 }
 
 /**
- * Get full transcript with timestamps
+ * Get full transcript with timestamps, prefixing each line with its speaker when known
  */
 export function getTimestampedTranscript(entries: SrtEntry[]): string {
   return entries
     .map(
       (entry) =>
-        `[${formatTimestamp(entry.startTime)} - ${formatTimestamp(entry.endTime)}] ${entry.text}`
+        `[${formatTimestamp(entry.startTime)} - ${formatTimestamp(entry.endTime)}] ${
+          entry.speaker ? `${entry.speaker}: ` : ""
+        }${entry.plainText}`
     )
     .join("\n");
 }
@@ -76,7 +377,7 @@ export function getTimestampedTranscript(entries: SrtEntry[]): string {
 /**
  * Convert SRT timestamp (HH:MM:SS,mmm) to total seconds
  */
-function timestampToSeconds(timestamp: string): number {
+export function timestampToSeconds(timestamp: string): number {
   const parts = timestamp.split(/[,:]/);
   const hours = parseInt(parts[0], 10);
   const minutes = parseInt(parts[1], 10);
@@ -87,34 +388,36 @@ function timestampToSeconds(timestamp: string): number {
 }
 
 /**
- * Get the duration of the video from SRT content in seconds
- * Returns the maximum end time found in the SRT timestamps
+ * Convert total seconds to SRT timestamp format (HH:MM:SS,mmm)
  */
-export function getDurationInSeconds(srtContent: string): number {
-  // Extract all timestamps using the same pattern as the API route
-  const timestampRegex = /(\d{2}:\d{2}:\d{2},\d{3}) --> (\d{2}:\d{2}:\d{2},\d{3})/g;
-  let maxSeconds = 0;
-  let match;
-  let matchCount = 0;
+export function secondsToTimestamp(totalSeconds: number): string {
+  const totalMilliseconds = Math.max(0, Math.round(totalSeconds * 1000));
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+  const seconds = Math.floor((totalMilliseconds % 60000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
 
-  // Find the latest end time
-  while ((match = timestampRegex.exec(srtContent)) !== null) {
-    matchCount++;
-    const endTime = match[2]; // Second capture group is the end time
-    const endTimeSeconds = timestampToSeconds(endTime);
-
-    if (endTimeSeconds > maxSeconds) {
-      maxSeconds = endTimeSeconds;
-    }
-  }
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds
+    .toString()
+    .padStart(2, "0")},${milliseconds.toString().padStart(3, "0")}`;
+}
 
-  console.log(`🎬 Found ${matchCount} SRT timestamp ranges, max duration: ${maxSeconds} seconds`);
+/**
+ * Normalize an SRT timestamp to zero-padded HH:MM:SS,mmm
+ */
+function normalizeTimestamp(timestamp: string): string {
+  return secondsToTimestamp(timestampToSeconds(timestamp));
+}
 
-  // If no matches found, log a sample of the content for debugging
-  if (matchCount === 0) {
-    console.error("❌ No SRT timestamps found! Sample content:");
-    console.error(srtContent.substring(0, 500));
-  }
+/**
+ * Get the duration of the video from parsed subtitle entries in seconds
+ * Returns the maximum end time found across all entries
+ */
+export function getDurationInSeconds(entries: SrtEntry[]): number {
+  const maxSeconds = entries.reduce(
+    (max, entry) => Math.max(max, timestampToSeconds(entry.endTime)),
+    0
+  );
 
   return maxSeconds;
 }
@@ -140,12 +443,3 @@ export function formatDuration(durationInSeconds: number): string {
     return `${minutes} ${minutes === 1 ? "min" : "mins"}`;
   }
 }
-
-/**
- * Get the duration of the video from SRT content in a human-readable format
- * Returns format like "2 hours and 16 mins" or "45 mins" if under an hour
- * @deprecated Use getDurationInSeconds and formatDuration separately for better control
- */
-export function getDurationFromSrtContent(srtContent: string): string {
-  return formatDuration(getDurationInSeconds(srtContent));
-}
@@ -0,0 +1,137 @@
+/**
+ * Utilities for parsing Advanced SubStation Alpha (.ass) and SubStation Alpha (.ssa)
+ * files into SRT-compatible entries
+ */
+
+import { createSrtEntry, secondsToTimestamp, type SrtEntry } from "@/lib/srt-parser";
+import { hasExtension } from "./registry";
+import type { SubtitleFormat } from "./types";
+
+const ASS_EXTENSIONS = [".ass", ".ssa"];
+
+// Column layout used by the V4+ spec when an [Events] section has no Format line
+const DEFAULT_EVENT_FORMAT = [
+  "layer",
+  "start",
+  "end",
+  "style",
+  "name",
+  "marginl",
+  "marginr",
+  "marginv",
+  "effect",
+  "text",
+];
+
+/**
+ * Convert an ASS timestamp (H:MM:SS.cc, centisecond precision) to seconds
+ */
+export function parseAssTime(timestamp: string): number | null {
+  const match = timestamp.trim().match(/^(\d+):(\d{2}):(\d{2})\.(\d{1,3})$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours, 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction, 10) / Math.pow(10, fraction.length)
+  );
+}
+
+/**
+ * Remove override blocks ({\an8}, {\i1}...), vector drawings and hard spaces
+ * Returns one string per \N line break
+ */
+export function stripAssTags(text: string): string[] {
+  return text
+    .replace(/\{[^}]*\\p[1-9][^}]*\}[\s\S]*?(\{[^}]*\\p0[^}]*\}|$)/g, "") // Drawing commands
+    .replace(/\{[^}]*\}/g, "")
+    .replace(/\\h/g, " ")
+    .split(/\\[Nn]/)
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse ASS/SSA content into structured entries
+ * The [Events] Format line determines where the Start, End, Name and Text columns are;
+ * the Name column becomes the entry's speaker
+ */
+export function parseAssContent(content: string): SrtEntry[] {
+  const lines = content.split(/\r?\n/);
+  const cues: Array<{ start: number; end: number; lines: string[]; speaker: string }> = [];
+
+  let inEvents = false;
+  let columns = DEFAULT_EVENT_FORMAT;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    // Section headers switch between [Script Info], [V4+ Styles], [Events]...
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      inEvents = sectionMatch[1].toLowerCase() === "events";
+      continue;
+    }
+
+    if (!inEvents) continue;
+
+    const separatorIndex = line.indexOf(":");
+    if (separatorIndex < 0) continue;
+
+    const key = line.slice(0, separatorIndex).trim().toLowerCase();
+    const value = line.slice(separatorIndex + 1).trimStart();
+
+    if (key === "format") {
+      columns = value.split(",").map((column) => column.trim().toLowerCase());
+      continue;
+    }
+
+    if (key !== "dialogue") continue;
+
+    // Text is always the last column and may itself contain commas
+    const fields = value.split(",");
+    const leading = fields.slice(0, columns.length - 1);
+    const textField = fields.slice(columns.length - 1).join(",");
+    const readColumn = (name: string) => {
+      const index = columns.indexOf(name);
+      return index >= 0 && index < leading.length ? leading[index].trim() : "";
+    };
+
+    const start = parseAssTime(readColumn("start"));
+    const end = parseAssTime(readColumn("end"));
+    if (start === null || end === null) continue;
+
+    const textLines = stripAssTags(textField);
+    if (textLines.length === 0) continue;
+
+    cues.push({ start, end, lines: textLines, speaker: readColumn("name") });
+  }
+
+  // Dialogue lines are not required to be in chronological order
+  return cues
+    .sort((a, b) => a.start - b.start)
+    .map((cue, index) =>
+      createSrtEntry(
+        index + 1,
+        secondsToTimestamp(cue.start),
+        secondsToTimestamp(cue.end),
+        cue.lines,
+        cue.speaker || undefined
+      )
+    );
+}
+
+export const assFormat: SubtitleFormat = {
+  id: "ass",
+  label: "SubStation Alpha (.ass, .ssa)",
+  extensions: ASS_EXTENSIONS,
+  sniff: (content, fileName) => {
+    if (/^\s*\[Script Info\]/i.test(content)) return 1;
+    if (/^\[Events\]\s*$/im.test(content) && /^Dialogue:/m.test(content)) return 0.9;
+    if (hasExtension(fileName, ASS_EXTENSIONS)) return 0.5;
+    return 0;
+  },
+  parse: parseAssContent,
+};
@@ -0,0 +1,37 @@
+/**
+ * Subtitle format registry entry point
+ * Registers the built-in formats; new caption sources only need to register here
+ */
+
+import { assFormat } from "./ass";
+import { registerSubtitleFormat } from "./registry";
+import { sbvFormat } from "./sbv";
+import { srtFormat } from "./srt";
+import { timestampedTextFormat, whisperJsonFormat } from "./transcript";
+import { ttmlFormat } from "./ttml";
+import { vttFormat } from "./vtt";
+import { youtubeJson3Format, youtubeSrv3Format } from "./youtube-timedtext";
+
+registerSubtitleFormat(srtFormat);
+registerSubtitleFormat(vttFormat);
+registerSubtitleFormat(ttmlFormat);
+registerSubtitleFormat(sbvFormat);
+registerSubtitleFormat(youtubeJson3Format);
+registerSubtitleFormat(youtubeSrv3Format);
+registerSubtitleFormat(assFormat);
+registerSubtitleFormat(whisperJsonFormat);
+registerSubtitleFormat(timestampedTextFormat);
+
+export {
+  detectAndParse,
+  detectSubtitleFormat,
+  getExportFormats,
+  getSubtitleFormats,
+  getSupportedExtensions,
+  isSupportedSubtitleFile,
+  registerSubtitleFormat,
+  serializeSubtitle,
+  SubtitleFormatError,
+} from "./registry";
+export type { ParsedSubtitle, SubtitleFormat } from "./types";
+export type { SrtParseWarning as SubtitleParseWarning } from "@/lib/srt-parser";
@@ -0,0 +1,135 @@
+/**
+ * Subtitle format registry with content sniffing and auto-detection
+ * Every caption source is parsed into the common SrtEntry cue model
+ */
+
+import { confirmSpeakerLabels, type SrtEntry } from "@/lib/srt-parser";
+import { stripBom } from "@/lib/text-encoding";
+import type { ParsedSubtitle, SubtitleFormat } from "./types";
+
+const formats: SubtitleFormat[] = [];
+
+/**
+ * Error raised when content cannot be matched to any registered format
+ */
+export class SubtitleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SubtitleFormatError";
+  }
+}
+
+/**
+ * Register a subtitle format, replacing any existing format with the same id
+ */
+export function registerSubtitleFormat(format: SubtitleFormat): void {
+  const existingIndex = formats.findIndex((registered) => registered.id === format.id);
+
+  if (existingIndex >= 0) {
+    formats[existingIndex] = format;
+  } else {
+    formats.push(format);
+  }
+}
+
+/**
+ * Get all registered subtitle formats in registration order
+ */
+export function getSubtitleFormats(): SubtitleFormat[] {
+  return [...formats];
+}
+
+/**
+ * Get every file extension accepted by the registered formats
+ */
+export function getSupportedExtensions(): string[] {
+  return [...new Set(formats.flatMap((format) => format.extensions))];
+}
+
+/**
+ * Check whether a file name has an extension handled by a registered format
+ */
+export function isSupportedSubtitleFile(fileName: string): boolean {
+  return hasExtension(fileName, getSupportedExtensions());
+}
+
+/**
+ * Check whether a file name ends with one of the given extensions
+ */
+export function hasExtension(fileName: string | undefined, extensions: string[]): boolean {
+  if (!fileName) return false;
+
+  const lowerName = fileName.toLowerCase();
+  return extensions.some((extension) => lowerName.endsWith(extension));
+}
+
+/**
+ * Rank registered formats by how confidently they recognise the content
+ * Formats that report a score of 0 are excluded
+ */
+function rankFormats(content: string, fileName?: string): SubtitleFormat[] {
+  return formats
+    .map((format) => ({ format, score: format.sniff(content, fileName) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ format }) => format);
+}
+
+/**
+ * Detect the most likely format of the content, or null when nothing matches
+ */
+export function detectSubtitleFormat(content: string, fileName?: string): SubtitleFormat | null {
+  return rankFormats(content, fileName)[0] ?? null;
+}
+
+/**
+ * Detect the format of the content and parse it into subtitle entries
+ * Falls back to lower-ranked candidates when the best match yields no entries
+ */
+export function detectAndParse(rawContent: string, fileName?: string): ParsedSubtitle {
+  // A BOM left by the decoder would otherwise be glued to the first cue
+  const content = stripBom(rawContent);
+  const candidates = rankFormats(content, fileName);
+
+  if (candidates.length === 0) {
+    throw new SubtitleFormatError(
+      `Unrecognized subtitle format. Supported formats: ${formats
+        .map((format) => format.label)
+        .join(", ")}`
+    );
+  }
+
+  for (const format of candidates) {
+    const { entries, warnings } = format.parseWithDiagnostics
+      ? format.parseWithDiagnostics(content)
+      : { entries: format.parse(content), warnings: [] };
+
+    if (entries.length > 0) {
+      return { format: format.id, entries: confirmSpeakerLabels(entries), warnings };
+    }
+  }
+
+  throw new SubtitleFormatError(
+    `Could not parse any valid entries from the ${candidates[0].label} file`
+  );
+}
+
+/**
+ * Serialize entries with a registered format's writer
+ */
+export function serializeSubtitle(entries: SrtEntry[], formatId: string): string {
+  const format = formats.find((registered) => registered.id === formatId);
+
+  if (!format?.serialize) {
+    throw new SubtitleFormatError(`Cannot export subtitles as "${formatId}"`);
+  }
+
+  return format.serialize(entries);
+}
+
+/**
+ * Get the registered formats that can be exported
+ */
+export function getExportFormats(): SubtitleFormat[] {
+  return formats.filter((format) => format.serialize);
+}
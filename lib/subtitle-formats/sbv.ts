@@ -0,0 +1,65 @@
+/**
+ * Utilities for parsing YouTube SubViewer (.sbv) files into SRT-compatible entries
+ */
+
+import { createSrtEntry, secondsToTimestamp, type SrtEntry } from "@/lib/srt-parser";
+import { hasExtension } from "./registry";
+import type { SubtitleFormat } from "./types";
+
+const SBV_EXTENSIONS = [".sbv"];
+
+// Matches an SBV timing line: "0:00:01.000,0:00:03.000"
+const SBV_TIMING_REGEX = /^(\d+):(\d{2}):(\d{2})\.(\d{3}),(\d+):(\d{2}):(\d{2})\.(\d{3})$/;
+
+/**
+ * Parse SBV file content into structured entries
+ */
+export function parseSbvContent(content: string): SrtEntry[] {
+  const blocks = content.trim().split(/\r?\n(?:[ \t]*\r?\n)+/);
+  const entries: SrtEntry[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/);
+
+    // First line contains the start and end times separated by a comma
+    const timeMatch = lines[0].trim().match(SBV_TIMING_REGEX);
+    if (!timeMatch) continue;
+
+    const [startSeconds, endSeconds] = [timeMatch.slice(1, 5), timeMatch.slice(5, 9)].map(
+      ([hours, minutes, seconds, milliseconds]) =>
+        parseInt(hours, 10) * 3600 +
+        parseInt(minutes, 10) * 60 +
+        parseInt(seconds, 10) +
+        parseInt(milliseconds, 10) / 1000
+    );
+
+    // Remaining lines are the text content
+    const textLines = lines.slice(1);
+    if (!textLines.some((line) => line.trim())) continue;
+
+    entries.push(
+      createSrtEntry(
+        entries.length + 1,
+        secondsToTimestamp(startSeconds),
+        secondsToTimestamp(endSeconds),
+        textLines
+      )
+    );
+  }
+
+  return entries;
+}
+
+export const sbvFormat: SubtitleFormat = {
+  id: "sbv",
+  label: "YouTube SubViewer (.sbv)",
+  extensions: SBV_EXTENSIONS,
+  sniff: (content, fileName) => {
+    if (/^\uFEFF?\s*\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}\s*\r?\n/.test(content)) {
+      return 0.9;
+    }
+    if (hasExtension(fileName, SBV_EXTENSIONS)) return 0.5;
+    return 0;
+  },
+  parse: parseSbvContent,
+};
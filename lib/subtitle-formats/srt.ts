@@ -0,0 +1,26 @@
+/**
+ * SubRip (.srt) format registration
+ */
+
+import { parseSrtContent, parseSrtContentLenient, serializeSrt } from "@/lib/srt-parser";
+import { hasExtension } from "./registry";
+import type { SubtitleFormat } from "./types";
+
+const SRT_EXTENSIONS = [".srt"];
+
+export const srtFormat: SubtitleFormat = {
+  id: "srt",
+  label: "SubRip (.srt)",
+  extensions: SRT_EXTENSIONS,
+  sniff: (content, fileName) => {
+    // Numeric cue id followed by an SRT timing line
+    if (/^\uFEFF?\s*\d+\s*\r?\n\d{1,2}:\d{2}:\d{2}[,.]\d{3}\s*-->/.test(content)) return 0.9;
+    // Malformed files (e.g. missing cue numbers) still have SRT-style timing lines
+    if (/^\s*\d{1,2}:\d{2}:\d{2}[,.:]\d{1,3}\s*-{1,2}>/m.test(content.slice(0, 2000))) return 0.7;
+    if (hasExtension(fileName, SRT_EXTENSIONS)) return 0.5;
+    return 0;
+  },
+  parse: parseSrtContent,
+  parseWithDiagnostics: parseSrtContentLenient,
+  serialize: serializeSrt,
+};
@@ -0,0 +1,225 @@
+/**
+ * Utilities for importing transcripts that are not caption files:
+ * timestamped plain-text exports (Otter, Descript, Whisper .txt) and Whisper JSON segments
+ */
+
+import { createSrtEntry, secondsToTimestamp, type SrtEntry } from "@/lib/srt-parser";
+import { hasExtension } from "./registry";
+import type { SubtitleFormat } from "./types";
+
+const TEXT_EXTENSIONS = [".txt"];
+const WHISPER_EXTENSIONS = [".json"];
+
+// Clock time such as "1:02", "12:34", "00:12:34" or "00:12:34.500"
+const CLOCK_PATTERN = "\\d{1,2}:\\d{2}(?::\\d{2})?(?:[.,]\\d{1,3})?";
+
+// "[00:12:34] Speaker: text", "(12:34) text", "00:12:34 - text" or "[00:00.000 --> 00:05.000] text"
+const LEADING_TIMESTAMP_REGEX = new RegExp(
+  `^[\\[(]?(${CLOCK_PATTERN})(?:\\s*(?:-->|-|–)\\s*(${CLOCK_PATTERN}))?[\\])]?\\s*(?:[-–|:]\\s+)?(.*)$`
+);
+
+// Otter-style paragraph header: "Speaker Name  0:03" on its own line
+const TRAILING_TIMESTAMP_REGEX = new RegExp(`^(.*?)\\s+(${CLOCK_PATTERN})$`);
+
+// Speaker names in headers: up to four capitalized words or numbers ("Speaker 1", "Jane Doe")
+const HEADER_SPEAKER_REGEX = /^\p{Lu}[\p{L}'.-]*(?:\s+[\p{Lu}\d][\p{L}\d'.-]*){0,3}$/u;
+
+// Headers needed before a file is read as using the "Speaker  0:03" layout
+const MIN_HEADER_LINES = 2;
+
+// Fallback speaking rate used to estimate the end of the final cue
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_SECONDS = 2;
+
+interface TimedCue {
+  start: number;
+  end?: number;
+  text: string;
+  speaker?: string;
+}
+
+/**
+ * Convert a transcript clock time (MM:SS or H:MM:SS with optional fraction) to seconds
+ */
+export function parseClockTime(timestamp: string): number {
+  const [clock, fraction = "0"] = timestamp.split(/[.,]/);
+  const parts = clock.split(":").map((part) => parseInt(part, 10));
+  const [hours, minutes, seconds] = parts.length === 3 ? parts : [0, ...parts];
+
+  return (
+    hours * 3600 + minutes * 60 + seconds + parseInt(fraction, 10) / Math.pow(10, fraction.length)
+  );
+}
+
+/**
+ * Convert timed cues to entries, inferring missing end times from the next cue's start
+ * The final cue's end is estimated from its word count when not provided
+ */
+export function buildEntriesFromTimedCues(cues: TimedCue[]): SrtEntry[] {
+  const timed = cues
+    .map((cue) => ({ ...cue, text: cue.text.replace(/\s+/g, " ").trim() }))
+    .filter((cue) => cue.text)
+    .sort((a, b) => a.start - b.start);
+
+  return timed.map((cue, index) => {
+    const next = timed[index + 1];
+    const estimatedEnd =
+      cue.start + Math.max(MIN_CUE_SECONDS, cue.text.split(" ").length / WORDS_PER_SECOND);
+    const end = cue.end ?? (next ? next.start : estimatedEnd);
+
+    return createSrtEntry(
+      index + 1,
+      secondsToTimestamp(cue.start),
+      secondsToTimestamp(Math.max(end, cue.start)),
+      [cue.text],
+      cue.speaker
+    );
+  });
+}
+
+/**
+ * Match a "Speaker Name  0:03" paragraph header
+ * Lines that end in a time but don't start with a speaker name ("we met at 10:30") are text
+ */
+function matchSpeakerHeader(line: string): { speaker?: string; start: string } | null {
+  if (LEADING_TIMESTAMP_REGEX.test(line)) return null;
+
+  const match = line.match(TRAILING_TIMESTAMP_REGEX);
+  if (!match || (match[1] && !HEADER_SPEAKER_REGEX.test(match[1]))) return null;
+  return { speaker: match[1] || undefined, start: match[2] };
+}
+
+/**
+ * Whether a transcript uses speaker headers consistently: several of them, and no more
+ * leading-timestamp lines than headers
+ */
+function usesSpeakerHeaders(lines: string[]): boolean {
+  const headers = lines.filter((line) => matchSpeakerHeader(line)).length;
+  const leading = lines.filter((line) => LEADING_TIMESTAMP_REGEX.test(line)).length;
+  return headers >= MIN_HEADER_LINES && headers >= leading;
+}
+
+/**
+ * Parse a timestamped plain-text transcript into structured entries
+ * Lines without a timestamp are appended to the preceding cue
+ */
+export function parseTimestampedText(content: string): SrtEntry[] {
+  const cues: TimedCue[] = [];
+  let current: TimedCue | null = null;
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const hasHeaders = usesSpeakerHeaders(lines);
+
+  for (const line of lines) {
+    const leadingMatch = line.match(LEADING_TIMESTAMP_REGEX);
+    if (leadingMatch) {
+      const [, start, end, text] = leadingMatch;
+      current = {
+        start: parseClockTime(start),
+        end: end ? parseClockTime(end) : undefined,
+        text,
+      };
+      cues.push(current);
+      continue;
+    }
+
+    const header = hasHeaders ? matchSpeakerHeader(line) : null;
+    if (header) {
+      current = { start: parseClockTime(header.start), text: "", speaker: header.speaker };
+      cues.push(current);
+      continue;
+    }
+
+    if (current) {
+      current.text += ` ${line}`;
+    }
+  }
+
+  return buildEntriesFromTimedCues(cues);
+}
+
+interface WhisperSegment {
+  start?: number;
+  end?: number;
+  text?: string;
+}
+
+interface WhisperCppSegment {
+  offsets?: { from?: number; to?: number };
+  text?: string;
+}
+
+/**
+ * Parse Whisper JSON output into structured entries
+ * Supports OpenAI Whisper ("segments" with start/end seconds) and whisper.cpp
+ * ("transcription" with millisecond offsets)
+ */
+export function parseWhisperJson(content: string): SrtEntry[] {
+  let parsed: { segments?: WhisperSegment[]; transcription?: WhisperCppSegment[] };
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  if (Array.isArray(parsed?.segments)) {
+    return buildEntriesFromTimedCues(
+      parsed.segments
+        .filter((segment) => typeof segment.start === "number")
+        .map((segment) => ({
+          start: segment.start as number,
+          end: segment.end,
+          text: segment.text ?? "",
+        }))
+    );
+  }
+
+  if (Array.isArray(parsed?.transcription)) {
+    return buildEntriesFromTimedCues(
+      parsed.transcription
+        .filter((segment) => typeof segment.offsets?.from === "number")
+        .map((segment) => ({
+          start: (segment.offsets?.from as number) / 1000,
+          end: typeof segment.offsets?.to === "number" ? segment.offsets.to / 1000 : undefined,
+          text: segment.text ?? "",
+        }))
+    );
+  }
+
+  return [];
+}
+
+export const timestampedTextFormat: SubtitleFormat = {
+  id: "text",
+  label: "Timestamped transcript (.txt)",
+  extensions: TEXT_EXTENSIONS,
+  sniff: (content, fileName) => {
+    const lines = content
+      .split(/\r?\n/, 50)
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const timestampedLines = lines.filter(
+      (line) => LEADING_TIMESTAMP_REGEX.test(line) || matchSpeakerHeader(line)
+    ).length;
+
+    // Lower than the caption formats so SRT/SBV timing lines are never claimed here
+    if (timestampedLines >= 2) return 0.4;
+    if (hasExtension(fileName, TEXT_EXTENSIONS)) return 0.3;
+    return 0;
+  },
+  parse: parseTimestampedText,
+};
+
+export const whisperJsonFormat: SubtitleFormat = {
+  id: "whisper-json",
+  label: "Whisper transcript (.json)",
+  extensions: WHISPER_EXTENSIONS,
+  sniff: (content, fileName) => {
+    if (/^\s*\{/.test(content) && /"(segments|transcription)"\s*:\s*\[/.test(content)) return 0.9;
+    if (hasExtension(fileName, WHISPER_EXTENSIONS)) return 0.3;
+    return 0;
+  },
+  parse: parseWhisperJson,
+};
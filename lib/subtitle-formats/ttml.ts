@@ -0,0 +1,147 @@
+/**
+ * Utilities for parsing TTML / DFXP subtitle files into SRT-compatible entries
+ * Uses lightweight regex extraction so it runs identically on the client and server
+ */
+
+import { createSrtEntry, secondsToTimestamp, type SrtEntry } from "@/lib/srt-parser";
+import { hasExtension } from "./registry";
+import type { SubtitleFormat } from "./types";
+
+const TTML_EXTENSIONS = [".ttml", ".dfxp"];
+
+const DEFAULT_FRAME_RATE = 30;
+const DEFAULT_TICK_RATE = 1;
+
+interface TtmlTimingParameters {
+  frameRate: number;
+  tickRate: number;
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Read a single attribute value from an XML attribute string
+ * Namespace prefixes are ignored so "ttp:frameRate" matches "frameRate"
+ */
+export function readXmlAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)(?:[\\w-]+:)?${name}\\s*=\\s*"([^"]*)"`));
+  return match?.[1];
+}
+
+/**
+ * Convert a TTML time expression (clock time or offset time) to seconds
+ * Supports "00:00:01.500", "00:00:01:12" (frames), "1.5s", "1500ms", "90f" and "10000000t"
+ */
+export function parseTtmlTime(
+  expression: string,
+  parameters: TtmlTimingParameters = { frameRate: DEFAULT_FRAME_RATE, tickRate: DEFAULT_TICK_RATE }
+): number | null {
+  const value = expression.trim();
+
+  const clockMatch = value.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/);
+  if (clockMatch) {
+    const [, hours, minutes, seconds, frames] = clockMatch;
+    return (
+      parseInt(hours, 10) * 3600 +
+      parseInt(minutes, 10) * 60 +
+      parseFloat(seconds) +
+      (frames ? parseFloat(frames) / parameters.frameRate : 0)
+    );
+  }
+
+  const offsetMatch = value.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (offsetMatch) {
+    const amount = parseFloat(offsetMatch[1]);
+    switch (offsetMatch[2]) {
+      case "h":
+        return amount * 3600;
+      case "m":
+        return amount * 60;
+      case "s":
+        return amount;
+      case "ms":
+        return amount / 1000;
+      case "f":
+        return amount / parameters.frameRate;
+      case "t":
+        return amount / parameters.tickRate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse TTML content into structured entries
+ * Paragraphs without a begin time are skipped; "dur" is used when "end" is missing
+ */
+export function parseTtmlContent(content: string): SrtEntry[] {
+  const rootMatch = content.match(/<(?:[\w-]+:)?tt\b([^>]*)>/);
+  const rootAttributes = rootMatch?.[1] ?? "";
+  const parameters: TtmlTimingParameters = {
+    frameRate: Number(readXmlAttribute(rootAttributes, "frameRate")) || DEFAULT_FRAME_RATE,
+    tickRate: Number(readXmlAttribute(rootAttributes, "tickRate")) || DEFAULT_TICK_RATE,
+  };
+
+  const paragraphRegex = /<(?:[\w-]+:)?p\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?p>/g;
+  const entries: SrtEntry[] = [];
+  let match;
+
+  while ((match = paragraphRegex.exec(content)) !== null) {
+    const [, attributes, body] = match;
+
+    const beginAttribute = readXmlAttribute(attributes, "begin");
+    const begin = beginAttribute ? parseTtmlTime(beginAttribute, parameters) : null;
+    if (begin === null) continue;
+
+    const endAttribute = readXmlAttribute(attributes, "end");
+    const durationAttribute = readXmlAttribute(attributes, "dur");
+    const end = endAttribute
+      ? parseTtmlTime(endAttribute, parameters)
+      : durationAttribute
+        ? (parseTtmlTime(durationAttribute, parameters) ?? 0) + begin
+        : null;
+    if (end === null) continue;
+
+    // <br/> separates lines, all other markup is removed
+    const textLines = body
+      .split(/<(?:[\w-]+:)?br\s*\/?>/)
+      .map((line) => decodeXmlEntities(line.replace(/<[^>]+>/g, "")).replace(/\s+/g, " "));
+    if (!textLines.some((line) => line.trim())) continue;
+
+    entries.push(
+      createSrtEntry(
+        entries.length + 1,
+        secondsToTimestamp(begin),
+        secondsToTimestamp(end),
+        textLines
+      )
+    );
+  }
+
+  return entries;
+}
+
+export const ttmlFormat: SubtitleFormat = {
+  id: "ttml",
+  label: "TTML (.ttml, .dfxp)",
+  extensions: TTML_EXTENSIONS,
+  sniff: (content, fileName) => {
+    if (/<(?:[\w-]+:)?tt\b[^>]*http:\/\/www\.w3\.org\/ns\/ttml/.test(content)) return 1;
+    if (hasExtension(fileName, TTML_EXTENSIONS)) return 0.6;
+    return 0;
+  },
+  parse: parseTtmlContent,
+};
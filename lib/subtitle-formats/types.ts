@@ -0,0 +1,32 @@
+/**
+ * Type definitions for the subtitle format registry
+ */
+
+import type { SrtEntry, SrtParseResult, SrtParseWarning } from "@/lib/srt-parser";
+
+export interface SubtitleFormat {
+  id: string;
+  label: string;
+  extensions: string[]; // Lowercase, including the leading dot (e.g. ".srt")
+  /**
+   * Return a confidence score between 0 and 1 that the content is in this format
+   * A score of 0 means the format cannot handle the content
+   */
+  sniff: (content: string, fileName?: string) => number;
+  parse: (content: string) => SrtEntry[];
+  /**
+   * Optional tolerant parser that recovers malformed input and reports what it changed
+   * Preferred over parse by detectAndParse when present
+   */
+  parseWithDiagnostics?: (content: string) => SrtParseResult;
+  /**
+   * Optional writer for formats that can be exported
+   */
+  serialize?: (entries: SrtEntry[]) => string;
+}
+
+export interface ParsedSubtitle {
+  format: string;
+  entries: SrtEntry[];
+  warnings: SrtParseWarning[];
+}
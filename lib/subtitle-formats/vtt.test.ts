@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { parseVttContent, serializeVtt } from "./vtt";
+
+const VTT = `WEBVTT
+Kind: captions
+
+NOTE This comment is dropped
+
+intro
+00:01.000 --> 00:04.000 align:start position:10%
+Welcome back to the stream
+
+00:04.500 --> 00:08.250
+<v Ray>Today we're building
+a timestamp generator</v>
+
+00:08.250 --> 00:12.000
+<v.loud Guest Speaker>Sounds good</v>
+
+01:00:12.500 --> 01:00:15.750
+RAY: Multi-line cue
+with <c.yellow>styled</c> text
+`;
+
+describe("serializeVtt", () => {
+  test("parse(serialize(parse(x))) is stable", () => {
+    const parsed = parseVttContent(VTT);
+    const reparsed = parseVttContent(serializeVtt(parsed));
+
+    expect(reparsed).toEqual(parsed);
+    expect(serializeVtt(reparsed)).toBe(serializeVtt(parsed));
+  });
+
+  test("keeps voice tags and their speakers", () => {
+    const entries = parseVttContent(serializeVtt(parseVttContent(VTT)));
+
+    expect(entries[1].speaker).toBe("Ray");
+    expect(entries[1].lines).toEqual(["<v Ray>Today we're building", "a timestamp generator</v>"]);
+    expect(entries[2].speaker).toBe("Guest Speaker");
+    expect(entries[2].plainText).toBe("Sounds good");
+  });
+
+  test("keeps multi-line cues and speaker labels", () => {
+    const entries = parseVttContent(serializeVtt(parseVttContent(VTT)));
+
+    expect(entries[3].speaker).toBe("RAY");
+    expect(entries[3].lines).toEqual(["RAY: Multi-line cue", "with <c.yellow>styled</c> text"]);
+    expect(entries[3].plainText).toBe("Multi-line cue with styled text");
+  });
+
+  test("drops cue settings, identifiers and notes", () => {
+    const serialized = serializeVtt(parseVttContent(VTT));
+
+    expect(serialized).not.toContain("align:start");
+    expect(serialized).not.toContain("NOTE");
+    expect(serialized.startsWith("WEBVTT\n\n00:00:01.000 --> 00:00:04.000\n")).toBe(true);
+  });
+});
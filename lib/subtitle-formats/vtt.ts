@@ -0,0 +1,102 @@
+/**
+ * Utilities for parsing WebVTT files into SRT-compatible entries
+ */
+
+import {
+  createSrtEntry,
+  secondsToTimestamp,
+  timestampToSeconds,
+  type SrtEntry,
+} from "@/lib/srt-parser";
+import type { SubtitleFormat } from "./types";
+
+// Matches a cue timing line: "00:01.000 --> 00:04.000" or "01:00:01.000 --> 01:00:04.000 align:start"
+const VTT_TIMING_REGEX =
+  /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})(?:\s+.*)?$/;
+
+// Blocks that carry no cue text and should be ignored
+const NON_CUE_BLOCK_REGEX = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+/**
+ * Check whether content is a WebVTT file (starts with the WEBVTT header)
+ */
+export function isVttContent(content: string): boolean {
+  return /^\uFEFF?WEBVTT(?:[ \t]|\r?\n|$)/.test(content);
+}
+
+/**
+ * Convert a WebVTT timestamp (MM:SS.mmm or HH:MM:SS.mmm) to SRT format (HH:MM:SS,mmm)
+ */
+export function normalizeVttTimestamp(timestamp: string): string {
+  const [clock, milliseconds] = timestamp.split(".");
+  const parts = clock.split(":");
+  const hours = parts.length === 3 ? parts[0] : "0";
+  const [minutes, seconds] = parts.slice(-2);
+
+  return `${hours.padStart(2, "0")}:${minutes}:${seconds},${milliseconds}`;
+}
+
+/**
+ * Parse WebVTT file content into the same structured entries as parseSrtContent
+ * Cue identifiers, cue settings and NOTE/STYLE/REGION blocks are dropped
+ */
+export function parseVttContent(content: string): SrtEntry[] {
+  const blocks = content.trim().split(/\r?\n(?:[ \t]*\r?\n)+/);
+  const entries: SrtEntry[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/);
+
+    // Skip the file header and any comment/style/region blocks
+    if (isVttContent(lines[0]) || NON_CUE_BLOCK_REGEX.test(lines[0])) continue;
+
+    // The timing line is either first, or second when preceded by a cue identifier
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex < 0 || timingIndex > 1) continue;
+
+    const timeMatch = lines[timingIndex].trim().match(VTT_TIMING_REGEX);
+    if (!timeMatch) continue;
+
+    const [, startTime, endTime] = timeMatch;
+
+    // Remaining lines are the cue payload (voice tags are kept for speaker detection)
+    const textLines = lines.slice(timingIndex + 1);
+    if (!textLines.some((line) => line.trim())) continue;
+
+    // Cue identifiers are optional and may be non-numeric, so entries are numbered sequentially
+    entries.push(
+      createSrtEntry(
+        entries.length + 1,
+        normalizeVttTimestamp(startTime),
+        normalizeVttTimestamp(endTime),
+        textLines
+      )
+    );
+  }
+
+  return entries;
+}
+
+/**
+ * Serialize entries to WebVTT content
+ * Times are written as HH:MM:SS.mmm; cue identifiers are omitted
+ */
+export function serializeVtt(entries: SrtEntry[]): string {
+  const cues = entries.map((entry) => {
+    const start = secondsToTimestamp(timestampToSeconds(entry.startTime)).replace(",", ".");
+    const end = secondsToTimestamp(timestampToSeconds(entry.endTime)).replace(",", ".");
+    const lines = entry.lines.length > 0 ? entry.lines : [entry.text];
+    return [`${start} --> ${end}`, ...lines].join("\n");
+  });
+
+  return ["WEBVTT", ...cues].join("\n\n").concat("\n");
+}
+
+export const vttFormat: SubtitleFormat = {
+  id: "vtt",
+  label: "WebVTT (.vtt)",
+  extensions: [".vtt"],
+  sniff: (content) => (isVttContent(content) ? 1 : 0),
+  parse: parseVttContent,
+  serialize: serializeVtt,
+};
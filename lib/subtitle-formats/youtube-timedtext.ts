@@ -0,0 +1,131 @@
+/**
+ * Utilities for parsing YouTube timedtext transcripts (json3 and srv3) into SRT-compatible entries
+ * Both formats express times as integer milliseconds
+ */
+
+import { createSrtEntry, secondsToTimestamp, type SrtEntry } from "@/lib/srt-parser";
+import { hasExtension } from "./registry";
+import { decodeXmlEntities, readXmlAttribute } from "./ttml";
+import type { SubtitleFormat } from "./types";
+
+const JSON3_EXTENSIONS = [".json3"];
+const SRV3_EXTENSIONS = [".srv3"];
+
+interface Json3Segment {
+  utf8?: string;
+}
+
+interface Json3Event {
+  tStartMs?: number;
+  dDurationMs?: number;
+  segs?: Json3Segment[];
+}
+
+/**
+ * Build entries from millisecond-timed events, falling back to the next event's
+ * start time when an event has no duration
+ */
+function buildEntries(
+  events: Array<{ startMs: number; durationMs?: number; text: string }>
+): SrtEntry[] {
+  const entries: SrtEntry[] = [];
+
+  events.forEach((event, index) => {
+    const lines = event.text.split("\n").map((line) => line.replace(/\s+/g, " "));
+    if (!lines.some((line) => line.trim())) return;
+
+    const endMs =
+      event.durationMs !== undefined
+        ? event.startMs + event.durationMs
+        : (events[index + 1]?.startMs ?? event.startMs);
+
+    entries.push(
+      createSrtEntry(
+        entries.length + 1,
+        secondsToTimestamp(event.startMs / 1000),
+        secondsToTimestamp(endMs / 1000),
+        lines
+      )
+    );
+  });
+
+  return entries;
+}
+
+/**
+ * Parse YouTube json3 timedtext content into structured entries
+ */
+export function parseJson3Content(content: string): SrtEntry[] {
+  let parsed: { events?: Json3Event[] };
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(parsed?.events)) return [];
+
+  return buildEntries(
+    parsed.events
+      .filter((event) => typeof event.tStartMs === "number" && event.segs)
+      .map((event) => ({
+        startMs: event.tStartMs as number,
+        durationMs: event.dDurationMs,
+        text: (event.segs ?? []).map((segment) => segment.utf8 ?? "").join(""),
+      }))
+  );
+}
+
+/**
+ * Parse YouTube srv3 timedtext XML into structured entries
+ * Each <p t="..." d="..."> paragraph becomes one entry; word-level <s> spans are flattened
+ */
+export function parseSrv3Content(content: string): SrtEntry[] {
+  const paragraphRegex = /<p\b([^>]*)>([\s\S]*?)<\/p>/g;
+  const events: Array<{ startMs: number; durationMs?: number; text: string }> = [];
+  let match;
+
+  while ((match = paragraphRegex.exec(content)) !== null) {
+    const [, attributes, body] = match;
+
+    const start = readXmlAttribute(attributes, "t");
+    if (start === undefined) continue;
+
+    const duration = readXmlAttribute(attributes, "d");
+
+    events.push({
+      startMs: parseInt(start, 10),
+      durationMs: duration !== undefined ? parseInt(duration, 10) : undefined,
+      text: decodeXmlEntities(body.replace(/<br\s*\/?>/g, "\n").replace(/<[^>]+>/g, "")),
+    });
+  }
+
+  return buildEntries(events);
+}
+
+export const youtubeJson3Format: SubtitleFormat = {
+  id: "youtube-json3",
+  label: "YouTube timedtext (.json3)",
+  extensions: JSON3_EXTENSIONS,
+  sniff: (content, fileName) => {
+    if (/^\s*\{/.test(content) && /"events"\s*:/.test(content) && /"tStartMs"/.test(content)) {
+      return 1;
+    }
+    if (hasExtension(fileName, JSON3_EXTENSIONS)) return 0.5;
+    return 0;
+  },
+  parse: parseJson3Content,
+};
+
+export const youtubeSrv3Format: SubtitleFormat = {
+  id: "youtube-srv3",
+  label: "YouTube timedtext (.srv3)",
+  extensions: SRV3_EXTENSIONS,
+  sniff: (content, fileName) => {
+    if (/<timedtext\b[^>]*format="3"/.test(content)) return 1;
+    if (/<timedtext\b/.test(content) && /<p\b[^>]*\bt="\d+"/.test(content)) return 0.8;
+    if (hasExtension(fileName, SRV3_EXTENSIONS)) return 0.5;
+    return 0;
+  },
+  parse: parseSrv3Content,
+};
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { parseSrtContent } from "./srt-parser";
+import { mergeSubtitleParts, resolvePartOffsets, type SubtitlePart } from "./subtitle-merge";
+
+const PART_ONE = parseSrtContent(`1
+00:00:00,000 --> 00:00:05,000
+Part one starts
+
+2
+00:00:50,000 --> 00:01:00,000
+Part one ends
+`);
+
+const PART_TWO = parseSrtContent(`1
+00:00:02,000 --> 00:00:04,000
+Part two starts
+`);
+
+/**
+ * A part placed at an offset, or auto-appended when the offset is null
+ */
+function part(entries = PART_ONE, offsetSeconds: number | null = null): SubtitlePart {
+  return { fileName: "part.srt", entries, offsetSeconds };
+}
+
+describe("resolvePartOffsets", () => {
+  test("appends each part where the previous one's last cue ends", () => {
+    expect(resolvePartOffsets([part(), part(PART_TWO), part()])).toEqual([0, 60, 64]);
+  });
+
+  test("adds the gap between auto-appended parts only", () => {
+    expect(resolvePartOffsets([part(), part(PART_TWO)], 10)).toEqual([0, 70]);
+    expect(resolvePartOffsets([part(PART_ONE, 5)], 10)).toEqual([5]);
+  });
+
+  test("appends after a part placed at an explicit offset", () => {
+    expect(resolvePartOffsets([part(), part(PART_TWO, 300), part()])).toEqual([0, 300, 304]);
+  });
+});
+
+describe("mergeSubtitleParts", () => {
+  test("shifts, orders and renumbers the cues of every part", () => {
+    const merged = mergeSubtitleParts([part(), part(PART_TWO)]);
+
+    expect(merged.map((entry) => [entry.id, entry.startTime, entry.text])).toEqual([
+      [1, "00:00:00,000", "Part one starts"],
+      [2, "00:00:50,000", "Part one ends"],
+      [3, "00:01:02,000", "Part two starts"],
+    ]);
+  });
+
+  test("interleaves overlapping parts by start time", () => {
+    const merged = mergeSubtitleParts([part(), part(PART_TWO, 20)]);
+
+    expect(merged.map((entry) => entry.text)).toEqual([
+      "Part one starts",
+      "Part two starts",
+      "Part one ends",
+    ]);
+  });
+
+  test("drops cues an offset moves before the start of the video", () => {
+    const merged = mergeSubtitleParts([part(PART_ONE, -30)]);
+
+    expect(merged.map((entry) => [entry.id, entry.startTime])).toEqual([[1, "00:00:20,000"]]);
+  });
+});
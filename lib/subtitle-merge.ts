@@ -0,0 +1,49 @@
+/**
+ * Merge caption files from a split recording into a single timeline
+ * Each part is either placed at an explicit offset or appended after the previous part
+ */
+
+import { timestampToSeconds, type SrtEntry } from "./srt-parser";
+import { shiftEntries } from "./subtitle-timing";
+
+export interface SubtitlePart {
+  fileName: string;
+  entries: SrtEntry[];
+  offsetSeconds: number | null; // Start of this part in the merged video, null to auto-append
+}
+
+/**
+ * End time in seconds of the last cue of a set of entries
+ */
+function getEntriesEnd(entries: SrtEntry[]): number {
+  return entries.reduce((end, entry) => Math.max(end, timestampToSeconds(entry.endTime)), 0);
+}
+
+/**
+ * Resolve where each part starts in the merged video
+ * Auto-appended parts start where the previous part's last cue ends, plus the gap
+ */
+export function resolvePartOffsets(parts: SubtitlePart[], gapSeconds = 0): number[] {
+  const offsets: number[] = [];
+  let previousEnd = 0;
+
+  parts.forEach((part, index) => {
+    const offset = part.offsetSeconds ?? (index === 0 ? 0 : previousEnd + gapSeconds);
+    offsets.push(offset);
+    previousEnd = offset + getEntriesEnd(part.entries);
+  });
+
+  return offsets;
+}
+
+/**
+ * Merge the parts into one renumbered, time-ordered list of entries
+ */
+export function mergeSubtitleParts(parts: SubtitlePart[], gapSeconds = 0): SrtEntry[] {
+  const offsets = resolvePartOffsets(parts, gapSeconds);
+
+  return parts
+    .flatMap((part, index) => shiftEntries(part.entries, offsets[index]))
+    .sort((a, b) => timestampToSeconds(a.startTime) - timestampToSeconds(b.startTime))
+    .map((entry, index) => ({ ...entry, id: index + 1 }));
+}
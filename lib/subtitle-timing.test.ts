@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { parseSrtContent, type SrtEntry } from "./srt-parser";
+import {
+  convertFrameRate,
+  parseTimeInput,
+  resyncEntries,
+  shiftEntries,
+  transformEntryTimes,
+} from "./subtitle-timing";
+
+const ENTRIES = parseSrtContent(`1
+00:00:01,000 --> 00:00:03,000
+Intro
+
+2
+00:00:10,000 --> 00:00:12,500
+Main part
+
+3
+00:01:40,000 --> 00:01:45,000
+Outro
+`);
+
+/**
+ * Start and end times of each entry
+ */
+function times(entries: SrtEntry[]): string[][] {
+  return entries.map((entry) => [entry.startTime, entry.endTime]);
+}
+
+describe("shiftEntries", () => {
+  test("moves every cue by the offset", () => {
+    expect(times(shiftEntries(ENTRIES, 2.5))).toEqual([
+      ["00:00:03,500", "00:00:05,500"],
+      ["00:00:12,500", "00:00:15,000"],
+      ["00:01:42,500", "00:01:47,500"],
+    ]);
+  });
+
+  test("drops cues that end before 0, clamps the rest and renumbers", () => {
+    const shifted = shiftEntries(ENTRIES, -11);
+
+    expect(times(shifted)).toEqual([
+      ["00:00:00,000", "00:00:01,500"],
+      ["00:01:29,000", "00:01:34,000"],
+    ]);
+    expect(shifted.map((entry) => [entry.id, entry.text])).toEqual([
+      [1, "Main part"],
+      [2, "Outro"],
+    ]);
+  });
+});
+
+describe("resyncEntries", () => {
+  test("corrects offset and drift so both sync points land on their targets", () => {
+    const resynced = resyncEntries(
+      ENTRIES,
+      { entryIndex: 0, targetSeconds: 2 },
+      { entryIndex: 2, targetSeconds: 200 }
+    );
+
+    expect(resynced[0].startTime).toBe("00:00:02,000");
+    expect(resynced[1].startTime).toBe("00:00:20,000");
+    expect(resynced[2].startTime).toBe("00:03:20,000");
+    expect(resynced[2].endTime).toBe("00:03:30,000");
+  });
+
+  test("rejects sync points on cues with equal start times", () => {
+    const [first] = ENTRIES;
+    const entries = [first, { ...first, id: 2, text: "Same start" }];
+
+    expect(() =>
+      resyncEntries(
+        entries,
+        { entryIndex: 0, targetSeconds: 1 },
+        { entryIndex: 1, targetSeconds: 5 }
+      )
+    ).toThrow("Sync points must reference cues with different start times");
+  });
+
+  test("rejects sync points outside the cue list", () => {
+    expect(() =>
+      resyncEntries(
+        ENTRIES,
+        { entryIndex: 0, targetSeconds: 1 },
+        { entryIndex: 3, targetSeconds: 5 }
+      )
+    ).toThrow("Sync points must reference existing cues");
+  });
+});
+
+describe("convertFrameRate", () => {
+  test("scales times by the frame rate ratio", () => {
+    expect(times(convertFrameRate(ENTRIES, 25, 50))[1]).toEqual(["00:00:05,000", "00:00:06,250"]);
+  });
+
+  test("rejects frame rates that aren't positive", () => {
+    expect(() => convertFrameRate(ENTRIES, 0, 25)).toThrow("Frame rates must be positive");
+  });
+});
+
+describe("transformEntryTimes", () => {
+  test("keeps the cue text and lines", () => {
+    const [entry] = transformEntryTimes(ENTRIES, (seconds) => seconds * 2);
+
+    expect(entry).toEqual({ ...ENTRIES[0], startTime: "00:00:02,000", endTime: "00:00:06,000" });
+  });
+});
+
+describe("parseTimeInput", () => {
+  test("reads seconds and clock times with signs and decimal commas", () => {
+    expect(parseTimeInput("2.5")).toBe(2.5);
+    expect(parseTimeInput("-0:30")).toBe(-30);
+    expect(parseTimeInput("+1:02:03,5")).toBe(3723.5);
+    expect(parseTimeInput(" 90 ")).toBe(90);
+  });
+
+  test("returns null for unreadable input", () => {
+    expect(parseTimeInput("")).toBeNull();
+    expect(parseTimeInput("1:2:3:4")).toBeNull();
+    expect(parseTimeInput("soon")).toBeNull();
+  });
+});
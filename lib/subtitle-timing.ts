@@ -0,0 +1,103 @@
+/**
+ * Timing transforms over parsed subtitle entries
+ * Constant offsets, two-point linear resync and frame-rate conversion
+ */
+
+import { secondsToTimestamp, timestampToSeconds, type SrtEntry } from "./srt-parser";
+
+// Common video frame rates offered for conversion
+export const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+export interface SyncPoint {
+  entryIndex: number; // 0-based index of the reference cue
+  targetSeconds: number; // Time the cue should start at in the final video
+}
+
+/**
+ * Apply a time mapping to every entry's start and end
+ * Cues that end before 0 are dropped, the rest are clamped to 0 and renumbered
+ */
+export function transformEntryTimes(
+  entries: SrtEntry[],
+  mapTime: (seconds: number) => number
+): SrtEntry[] {
+  return entries
+    .map((entry) => ({
+      entry,
+      start: mapTime(timestampToSeconds(entry.startTime)),
+      end: mapTime(timestampToSeconds(entry.endTime)),
+    }))
+    .filter(({ end }) => end > 0)
+    .map(({ entry, start, end }, index) => ({
+      ...entry,
+      id: index + 1,
+      startTime: secondsToTimestamp(Math.max(0, start)),
+      endTime: secondsToTimestamp(Math.max(0, end)),
+    }));
+}
+
+/**
+ * Shift every entry by a constant offset (negative values move captions earlier)
+ */
+export function shiftEntries(entries: SrtEntry[], offsetSeconds: number): SrtEntry[] {
+  return transformEntryTimes(entries, (seconds) => seconds + offsetSeconds);
+}
+
+/**
+ * Linearly resync entries so cue A starts at time X and cue B starts at time Y
+ * Corrects both a constant offset and a constant drift in one pass
+ */
+export function resyncEntries(
+  entries: SrtEntry[],
+  first: SyncPoint,
+  second: SyncPoint
+): SrtEntry[] {
+  const firstEntry = entries[first.entryIndex];
+  const secondEntry = entries[second.entryIndex];
+
+  if (!firstEntry || !secondEntry) {
+    throw new Error("Sync points must reference existing cues");
+  }
+
+  const firstSource = timestampToSeconds(firstEntry.startTime);
+  const secondSource = timestampToSeconds(secondEntry.startTime);
+
+  if (firstSource === secondSource) {
+    throw new Error("Sync points must reference cues with different start times");
+  }
+
+  const scale = (second.targetSeconds - first.targetSeconds) / (secondSource - firstSource);
+  return transformEntryTimes(
+    entries,
+    (seconds) => first.targetSeconds + (seconds - firstSource) * scale
+  );
+}
+
+/**
+ * Convert entries timed against one frame rate to another (e.g. 25fps captions for 23.976 video)
+ */
+export function convertFrameRate(entries: SrtEntry[], fromFps: number, toFps: number): SrtEntry[] {
+  if (fromFps <= 0 || toFps <= 0) {
+    throw new Error("Frame rates must be positive");
+  }
+
+  return transformEntryTimes(entries, (seconds) => (seconds * fromFps) / toFps);
+}
+
+/**
+ * Parse a user-entered time: plain seconds ("-2.5") or clock time ("1:02:03.5", "-0:30")
+ * Returns null when the input cannot be read
+ */
+export function parseTimeInput(value: string): number | null {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^([+-])?(?:(?:(\d+):)?(\d{1,2}):)?(\d+(?:[.,]\d+)?)$/);
+  if (!match) return null;
+
+  const [, sign, hours, minutes, seconds] = match;
+  const total =
+    parseInt(hours || "0", 10) * 3600 +
+    parseInt(minutes || "0", 10) * 60 +
+    parseFloat(seconds.replace(",", "."));
+
+  return sign === "-" ? -total : total;
+}
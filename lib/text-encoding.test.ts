@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { decodeSubtitleBuffer, stripBom } from "./text-encoding";
+
+const CUE = "1\n00:00:01,000 --> 00:00:02,000\nCafé déjà vu\n";
+
+/**
+ * UTF-16 bytes for a string, little- or big-endian, without a BOM
+ */
+function utf16(text: string, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  [...text].forEach((char, index) => view.setUint16(index * 2, char.charCodeAt(0), littleEndian));
+  return bytes;
+}
+
+describe("decodeSubtitleBuffer", () => {
+  test("decodes plain UTF-8", () => {
+    expect(decodeSubtitleBuffer(new TextEncoder().encode(CUE))).toEqual({
+      text: CUE,
+      encoding: "utf-8",
+      hadBom: false,
+    });
+  });
+
+  test("strips a UTF-8 byte order mark", () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode(CUE)]);
+
+    expect(decodeSubtitleBuffer(bytes)).toEqual({ text: CUE, encoding: "utf-8", hadBom: true });
+  });
+
+  test("uses UTF-16 byte order marks", () => {
+    const little = new Uint8Array([0xff, 0xfe, ...utf16(CUE, true)]);
+    const big = new Uint8Array([0xfe, 0xff, ...utf16(CUE, false)]);
+
+    expect(decodeSubtitleBuffer(little)).toEqual({ text: CUE, encoding: "utf-16le", hadBom: true });
+    expect(decodeSubtitleBuffer(big)).toEqual({ text: CUE, encoding: "utf-16be", hadBom: true });
+  });
+
+  test("detects UTF-16 without a byte order mark", () => {
+    expect(decodeSubtitleBuffer(utf16(CUE, true)).encoding).toBe("utf-16le");
+    expect(decodeSubtitleBuffer(utf16(CUE, false)).encoding).toBe("utf-16be");
+    expect(decodeSubtitleBuffer(utf16(CUE, true)).text).toBe(CUE);
+  });
+
+  test("falls back to Windows-1252 for bytes that aren't valid UTF-8", () => {
+    // "Café" with é as the single Windows-1252 byte 0xE9
+    const bytes = new Uint8Array([0x43, 0x61, 0x66, 0xe9]);
+
+    expect(decodeSubtitleBuffer(bytes)).toEqual({
+      text: "Café",
+      encoding: "windows-1252",
+      hadBom: false,
+    });
+  });
+
+  test("replaces invalid bytes when no encoding fits", () => {
+    const result = decodeSubtitleBuffer(new Uint8Array([0x43, 0x61, 0x66, 0xe9]), []);
+
+    expect(result.encoding).toBe("utf-8");
+    expect(result.text).toBe("Caf\uFFFD");
+  });
+});
+
+describe("stripBom", () => {
+  test("removes only a leading byte order mark", () => {
+    expect(stripBom("\uFEFFtext")).toBe("text");
+    expect(stripBom("text\uFEFF")).toBe("text\uFEFF");
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Character encoding detection for uploaded subtitle files
+ * Handles byte order marks, BOM-less UTF-16 and legacy Windows codepages via TextDecoder
+ */
+
+export interface DecodedText {
+  text: string;
+  encoding: string; // WHATWG encoding label used to decode the bytes
+  hadBom: boolean;
+}
+
+// Codepages tried in order when the bytes are not valid UTF-8
+export const DEFAULT_FALLBACK_ENCODINGS = ["windows-1252"];
+
+// Number of leading bytes inspected by the UTF-16 heuristic
+const SNIFF_LENGTH = 4096;
+
+/**
+ * Remove a leading byte order mark (U+FEFF) left behind by a decoder
+ */
+export function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Detect the encoding from a byte order mark, or null when there is none
+ */
+function detectBom(bytes: Uint8Array): { encoding: string; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: "utf-8", length: 3 };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: "utf-16le", length: 2 };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: "utf-16be", length: 2 };
+  }
+  return null;
+}
+
+/**
+ * Guess BOM-less UTF-16 from the distribution of zero bytes
+ * Mostly-ASCII UTF-16 text has a zero in every other byte
+ */
+function detectUtf16(bytes: Uint8Array): string | null {
+  const length = Math.min(bytes.length, SNIFF_LENGTH);
+  if (length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < length; index++) {
+    if (bytes[index] === 0) {
+      if (index % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return "utf-16le";
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return "utf-16be";
+  return null;
+}
+
+/**
+ * Decode with the given encoding, returning null when the bytes are invalid for it
+ */
+function tryDecode(bytes: Uint8Array, encoding: string): string | null {
+  try {
+    return new TextDecoder(encoding, { fatal: true, ignoreBOM: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode subtitle file bytes, detecting the encoding and stripping any BOM
+ * Order: BOM → UTF-16 heuristic → strict UTF-8 → fallback codepages
+ */
+export function decodeSubtitleBuffer(
+  buffer: ArrayBuffer | Uint8Array,
+  fallbackEncodings: string[] = DEFAULT_FALLBACK_ENCODINGS
+): DecodedText {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+
+  const bom = detectBom(bytes);
+  if (bom) {
+    const text = new TextDecoder(bom.encoding, { ignoreBOM: true }).decode(
+      bytes.subarray(bom.length)
+    );
+    return { text, encoding: bom.encoding, hadBom: true };
+  }
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) {
+    const text = tryDecode(bytes, utf16);
+    if (text !== null) return { text, encoding: utf16, hadBom: false };
+  }
+
+  for (const encoding of ["utf-8", ...fallbackEncodings]) {
+    const text = tryDecode(bytes, encoding);
+    if (text !== null) return { text: stripBom(text), encoding, hadBom: false };
+  }
+
+  // Last resort: replace invalid sequences rather than failing the upload
+  return {
+    text: stripBom(new TextDecoder("utf-8").decode(bytes)),
+    encoding: "utf-8",
+    hadBom: false,
+  };
+}
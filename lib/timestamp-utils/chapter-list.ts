@@ -0,0 +1,18 @@
+/**
+ * Chapter lists as pasted into (or copied from) a video description
+ */
+
+import type { KeyMoment } from "./normalizer";
+
+// "00:00 Intro", "1:02:03 - Q&A", "12:30: Wrap-up"
+const CHAPTER_LINE_PATTERN = /^(\d{1,2}:\d{2}(?::\d{2})?)\s*[-–—:|]?\s*(.+)$/;
+
+/**
+ * Parse a chapter list, one "time description" per line; other lines are ignored
+ */
+export function parseChapterList(content: string): KeyMoment[] {
+  return content.split(/\r?\n/).flatMap((line) => {
+    const match = line.trim().match(CHAPTER_LINE_PATTERN);
+    return match ? [{ time: match[1], description: match[2].trim() }] : [];
+  });
+}
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { fixChapters, validateChapters } from "./chapter-validator";
+import type { KeyMoment } from "./normalizer";
+
+/**
+ * Key moments from [time, description] pairs
+ */
+function chapters(...list: Array<[string, string]>): KeyMoment[] {
+  return list.map(([time, description]) => ({ time, description }));
+}
+
+describe("validateChapters", () => {
+  test("accepts a valid chapter list", () => {
+    const valid = chapters(["00:00", "Intro"], ["02:00", "Setup"], ["05:00", "Build"]);
+
+    expect(validateChapters(valid, 600)).toEqual([]);
+  });
+
+  test("reports every broken rule", () => {
+    const codes = validateChapters(
+      chapters(
+        ["00:30", "Setup"],
+        ["00:35", "Build"],
+        ["00:20", "Deploy"],
+        ["00:40", "Setup"],
+        ["12:00", "Outro"]
+      ),
+      600
+    ).map((violation) => [violation.code, violation.time]);
+
+    expect(codes).toEqual([
+      ["missing-intro", "00:30"],
+      ["too-short", "00:30"],
+      ["not-ascending", "00:20"],
+      ["duplicate", "00:40"],
+      ["past-end", "12:00"],
+    ]);
+  });
+
+  test("needs at least three chapters", () => {
+    const [violation] = validateChapters(chapters(["00:00", "Intro"], ["05:00", "Main"]), 600);
+
+    expect(violation.code).toBe("too-few");
+  });
+});
+
+describe("fixChapters", () => {
+  test("sorts, drops times past the end and duplicates, and inserts an intro", () => {
+    const { keyMoments, fixes, violations } = fixChapters(
+      chapters(["05:00", "Build"], ["02:00", "Setup"], ["07:00", "build"], ["12:00", "Outro"]),
+      600,
+      false
+    );
+
+    expect(keyMoments).toEqual(
+      chapters(["00:00", "Intro"], ["02:00", "Setup"], ["05:00", "Build"])
+    );
+    expect(fixes).toEqual([
+      "Removed 1 timestamps past the video end",
+      "Sorted timestamps into ascending order",
+      "Removed 1 duplicate timestamps",
+      "Inserted an intro chapter at 00:00",
+    ]);
+    expect(violations).toEqual([]);
+  });
+
+  test("moves a first timestamp just after the start to 00:00", () => {
+    const { keyMoments } = fixChapters(
+      chapters(["00:04", "Welcome"], ["02:00", "Setup"], ["05:00", "Build"]),
+      600,
+      false
+    );
+
+    expect(keyMoments[0]).toEqual({ time: "00:00", description: "Welcome" });
+  });
+
+  test("merges short chapters and drops one too close to the end", () => {
+    const { keyMoments, violations } = fixChapters(
+      chapters(
+        ["00:00", "Intro"],
+        ["00:05", "Hello"],
+        ["02:00", "Setup"],
+        ["05:00", "Build"],
+        ["09:55", "Bye"]
+      ),
+      600,
+      true
+    );
+
+    expect(keyMoments.map((moment) => moment.time)).toEqual(["00:00:00", "00:02:00", "00:05:00"]);
+    expect(violations).toEqual([]);
+  });
+
+  test("reports rules it can't fix", () => {
+    const { violations } = fixChapters(chapters(["00:00", "Intro"], ["05:00", "Main"]), 600, false);
+
+    expect(violations.map((violation) => violation.code)).toEqual(["too-few"]);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * YouTube chapter rules validation and auto-fixing
+ * YouTube only turns timestamps into chapters when the first is 00:00, there are at least three,
+ * they are ascending, and every chapter is at least 10 seconds long
+ */
+
+import { formatMomentTime, parseMomentTime, type KeyMoment } from "./normalizer";
+
+export const YOUTUBE_CHAPTER_RULES = {
+  minChapters: 3,
+  minChapterSeconds: 10,
+};
+
+export type ChapterViolationCode =
+  "missing-intro" | "too-few" | "not-ascending" | "duplicate" | "too-short" | "past-end";
+
+export interface ChapterViolation {
+  code: ChapterViolationCode;
+  message: string;
+  time?: string; // Timestamp the violation refers to, when it concerns a single chapter
+}
+
+export interface ChapterFixResult {
+  keyMoments: KeyMoment[];
+  fixes: string[]; // Human-readable list of changes made
+  violations: ChapterViolation[]; // Rules still broken after fixing
+}
+
+// Description used when a 00:00 chapter has to be inserted
+const INTRO_DESCRIPTION = "Intro";
+
+/**
+ * Normalize a description for duplicate detection
+ */
+function descriptionKey(description: string): string {
+  return description.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Check key moments against YouTube's chapter rules
+ */
+export function validateChapters(
+  moments: KeyMoment[],
+  durationInSeconds: number
+): ChapterViolation[] {
+  const violations: ChapterViolation[] = [];
+  const times = moments.map((moment) => parseMomentTime(moment.time));
+
+  if (moments.length > 0 && times[0] !== 0) {
+    violations.push({
+      code: "missing-intro",
+      message: "The first chapter must start at 00:00",
+      time: moments[0].time,
+    });
+  }
+
+  if (moments.length < YOUTUBE_CHAPTER_RULES.minChapters) {
+    violations.push({
+      code: "too-few",
+      message: `YouTube needs at least ${YOUTUBE_CHAPTER_RULES.minChapters} chapters (found ${moments.length})`,
+    });
+  }
+
+  const seenDescriptions = new Set<string>();
+  moments.forEach((moment, index) => {
+    const seconds = times[index];
+    const next = times[index + 1] ?? durationInSeconds;
+
+    if (index > 0 && seconds < times[index - 1]) {
+      violations.push({
+        code: "not-ascending",
+        message: `${moment.time} comes after ${moments[index - 1].time}`,
+        time: moment.time,
+      });
+    } else if (index > 0 && seconds === times[index - 1]) {
+      violations.push({
+        code: "duplicate",
+        message: `${moment.time} is used by more than one chapter`,
+        time: moment.time,
+      });
+    } else if (durationInSeconds > 0 && seconds > durationInSeconds) {
+      violations.push({
+        code: "past-end",
+        message: `${moment.time} is after the end of the video`,
+        time: moment.time,
+      });
+    } else if (next - seconds < YOUTUBE_CHAPTER_RULES.minChapterSeconds && next >= seconds) {
+      violations.push({
+        code: "too-short",
+        message: `The chapter at ${moment.time} is shorter than ${YOUTUBE_CHAPTER_RULES.minChapterSeconds} seconds`,
+        time: moment.time,
+      });
+    }
+
+    const key = descriptionKey(moment.description);
+    if (seenDescriptions.has(key)) {
+      violations.push({
+        code: "duplicate",
+        message: `"${moment.description}" is used for more than one chapter`,
+        time: moment.time,
+      });
+    }
+    seenDescriptions.add(key);
+  });
+
+  return violations;
+}
+
+/**
+ * Fix what can be fixed automatically: drop times past the end, sort, remove duplicates,
+ * start at 00:00 and merge chapters that are too short into the previous one
+ */
+export function fixChapters(
+  moments: KeyMoment[],
+  durationInSeconds: number,
+  isLongContent: boolean
+): ChapterFixResult {
+  const fixes: string[] = [];
+  let chapters = moments.map((moment) => ({ ...moment, seconds: parseMomentTime(moment.time) }));
+
+  // 1. Times past the end of the video can't be chapters
+  if (durationInSeconds > 0) {
+    const withinVideo = chapters.filter((chapter) => chapter.seconds <= durationInSeconds);
+    if (withinVideo.length < chapters.length) {
+      fixes.push(`Removed ${chapters.length - withinVideo.length} timestamps past the video end`);
+      chapters = withinVideo;
+    }
+  }
+
+  // 2. Ascending order
+  if (
+    chapters.some((chapter, index) => index > 0 && chapter.seconds < chapters[index - 1].seconds)
+  ) {
+    chapters = [...chapters].sort((a, b) => a.seconds - b.seconds);
+    fixes.push("Sorted timestamps into ascending order");
+  }
+
+  // 3. Duplicate times or descriptions keep their first occurrence
+  const seenDescriptions = new Set<string>();
+  const unique = chapters.filter((chapter, index) => {
+    const key = descriptionKey(chapter.description);
+    const isDuplicate =
+      (index > 0 && chapter.seconds === chapters[index - 1].seconds) || seenDescriptions.has(key);
+    seenDescriptions.add(key);
+    return !isDuplicate;
+  });
+  if (unique.length < chapters.length) {
+    fixes.push(`Removed ${chapters.length - unique.length} duplicate timestamps`);
+    chapters = unique;
+  }
+
+  // 4. The first chapter must start at 00:00
+  if (chapters.length > 0 && chapters[0].seconds !== 0) {
+    if (chapters[0].seconds < YOUTUBE_CHAPTER_RULES.minChapterSeconds) {
+      chapters[0] = { ...chapters[0], seconds: 0 };
+      fixes.push("Moved the first timestamp to 00:00");
+    } else {
+      chapters.unshift({ time: "", description: INTRO_DESCRIPTION, seconds: 0 });
+      fixes.push("Inserted an intro chapter at 00:00");
+    }
+  }
+
+  // 5. Merge chapters shorter than the minimum into the chapter before them
+  const merged: typeof chapters = [];
+  for (const chapter of chapters) {
+    const previous = merged[merged.length - 1];
+    if (previous && chapter.seconds - previous.seconds < YOUTUBE_CHAPTER_RULES.minChapterSeconds) {
+      fixes.push(
+        `Merged the chapter at ${formatMomentTime(chapter.seconds, isLongContent)} into the previous chapter`
+      );
+      continue;
+    }
+    merged.push(chapter);
+  }
+  // The last chapter also needs room before the video ends
+  const last = merged[merged.length - 1];
+  if (
+    merged.length > 1 &&
+    durationInSeconds > 0 &&
+    durationInSeconds - last.seconds < YOUTUBE_CHAPTER_RULES.minChapterSeconds
+  ) {
+    merged.pop();
+    fixes.push(
+      `Removed the final chapter at ${formatMomentTime(last.seconds, isLongContent)} (too close to the end)`
+    );
+  }
+
+  const keyMoments = merged.map(({ seconds, ...moment }) => ({
+    ...moment,
+    time: formatMomentTime(seconds, isLongContent),
+  }));
+
+  return {
+    keyMoments,
+    fixes,
+    violations: validateChapters(keyMoments, durationInSeconds),
+  };
+}
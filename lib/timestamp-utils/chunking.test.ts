@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import { parseSrtContent, secondsToTimestamp } from "@/lib/srt-parser";
+import { reduceChunkMoments, splitIntoChunks, type ChunkingConfig } from "./chunking";
+
+const CONFIG: ChunkingConfig = {
+  windowSeconds: 600,
+  overlapSeconds: 60,
+  minGapSeconds: 30,
+  targetIntervalSeconds: 120,
+};
+
+/**
+ * One cue a minute for the given number of minutes
+ */
+function minuteCues(minutes: number) {
+  return parseSrtContent(
+    Array.from({ length: minutes }, (_, minute) =>
+      [
+        String(minute + 1),
+        `${secondsToTimestamp(minute * 60)} --> ${secondsToTimestamp(minute * 60 + 50)}`,
+        `Minute ${minute}`,
+      ].join("\n")
+    ).join("\n\n")
+  );
+}
+
+describe("splitIntoChunks", () => {
+  test("overlaps neighbouring windows so boundary cues land in both", () => {
+    const chunks = splitIntoChunks(minuteCues(30), 1800, CONFIG);
+
+    expect(chunks.map((chunk) => [chunk.startSeconds, chunk.endSeconds])).toEqual([
+      [0, 600],
+      [540, 1140],
+      [1080, 1800],
+    ]);
+    expect(chunks[0].entries.at(-1)?.text).toBe("Minute 9");
+    expect(chunks[1].entries[0].text).toBe("Minute 9");
+  });
+
+  test("folds a short remainder into the last window", () => {
+    const chunks = splitIntoChunks(minuteCues(20), 1200, CONFIG);
+
+    expect(chunks.map((chunk) => [chunk.startSeconds, chunk.endSeconds])).toEqual([
+      [0, 600],
+      [540, 1200],
+    ]);
+  });
+
+  test("skips windows without cues and keeps indexes consecutive", () => {
+    const entries = minuteCues(30).filter((_, minute) => minute < 5 || minute >= 25);
+    const chunks = splitIntoChunks(entries, 1800, CONFIG);
+
+    expect(chunks.map((chunk) => [chunk.index, chunk.startSeconds])).toEqual([
+      [0, 0],
+      [1, 1080],
+    ]);
+  });
+});
+
+describe("reduceChunkMoments", () => {
+  const chunks = splitIntoChunks(minuteCues(30), 1800, CONFIG);
+
+  test("keeps the copy of a boundary moment furthest from its window's edge", () => {
+    const reduced = reduceChunkMoments(
+      [
+        [
+          { time: "00:00", description: "Intro" },
+          { time: "09:50", description: "Deploying the app" },
+        ],
+        [{ time: "09:40", description: "Deploying the app to production" }],
+        [],
+      ],
+      chunks,
+      1800,
+      false,
+      undefined,
+      CONFIG
+    );
+
+    expect(reduced).toEqual([
+      { time: "00:00", description: "Intro" },
+      { time: "09:40", description: "Deploying the app to production" },
+    ]);
+  });
+
+  test("merges similar descriptions within the overlap even when further apart", () => {
+    const reduced = reduceChunkMoments(
+      [
+        [{ time: "09:00", description: "Setting up the database schema" }],
+        [{ time: "09:45", description: "Database schema setup" }],
+        [],
+      ],
+      chunks,
+      1800,
+      false,
+      undefined,
+      CONFIG
+    );
+
+    expect(reduced).toHaveLength(1);
+  });
+
+  test("thins the densest moments down to the requested maximum", () => {
+    const topics = [
+      "Intro",
+      "Setup",
+      "Install",
+      "Routing",
+      "Styling",
+      "Testing",
+      "Deploy",
+      "Outro",
+    ];
+    const moments = [0, 60, 90, 300, 600, 900, 1200, 1500].map((seconds, index) => ({
+      time: secondsToTimestamp(seconds).slice(3, 8),
+      description: topics[index],
+    }));
+    const reduced = reduceChunkMoments(
+      [moments, [], []],
+      chunks,
+      1800,
+      false,
+      { min: 1, max: 6 },
+      CONFIG
+    );
+
+    expect(reduced).toHaveLength(6);
+    expect(reduced.map((moment) => moment.time)).toEqual([
+      "00:00",
+      "05:00",
+      "10:00",
+      "15:00",
+      "20:00",
+      "25:00",
+    ]);
+  });
+
+  test("drops moments after the end of the video and formats long videos as HH:MM:SS", () => {
+    const reduced = reduceChunkMoments(
+      [[{ time: "00:00", description: "Intro" }], [], [{ time: "31:00", description: "Past" }]],
+      chunks,
+      1800,
+      true,
+      undefined,
+      CONFIG
+    );
+
+    expect(reduced).toEqual([{ time: "00:00:00", description: "Intro" }]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Map-reduce helpers for very long transcripts
+ * Splits cues into overlapping time windows and merges the per-window key moments
+ */
+
+import { timestampToSeconds, type SrtEntry } from "@/lib/srt-parser";
+import type { MomentCountRange } from "./density";
+import { formatMomentTime, parseMomentTime, type KeyMoment } from "./normalizer";
+
+export interface ChunkingConfig {
+  windowSeconds: number; // Length of each transcript window
+  overlapSeconds: number; // Time shared by neighbouring windows so boundary topics are not cut
+  minGapSeconds: number; // Moments closer than this are treated as the same moment
+  targetIntervalSeconds: number; // Desired average spacing between moments across the video
+}
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  windowSeconds: 45 * 60,
+  overlapSeconds: 3 * 60,
+  minGapSeconds: 60,
+  targetIntervalSeconds: 5 * 60,
+};
+
+export interface TranscriptChunk {
+  index: number;
+  startSeconds: number;
+  endSeconds: number;
+  entries: SrtEntry[];
+}
+
+interface CandidateMoment extends KeyMoment {
+  seconds: number;
+  edgeDistance: number; // Distance to the nearest edge of the window that produced it
+}
+
+/**
+ * Split entries into overlapping windows; a cue belongs to every window its start falls in
+ */
+export function splitIntoChunks(
+  entries: SrtEntry[],
+  durationInSeconds: number,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
+): TranscriptChunk[] {
+  const step = Math.max(config.windowSeconds - config.overlapSeconds, 1);
+  const chunks: TranscriptChunk[] = [];
+
+  for (let startSeconds = 0; startSeconds < durationInSeconds; startSeconds += step) {
+    // A short remainder is folded into this window instead of becoming a tiny final window
+    const remainder = durationInSeconds - (startSeconds + config.windowSeconds);
+    const endSeconds =
+      remainder < config.windowSeconds / 4
+        ? durationInSeconds
+        : startSeconds + config.windowSeconds;
+    const chunkEntries = entries.filter((entry) => {
+      const start = timestampToSeconds(entry.startTime);
+      return start >= startSeconds && start < endSeconds;
+    });
+
+    if (chunkEntries.length > 0) {
+      chunks.push({ index: chunks.length, startSeconds, endSeconds, entries: chunkEntries });
+    }
+
+    if (endSeconds >= durationInSeconds) break;
+  }
+
+  return chunks;
+}
+
+/**
+ * Lowercased word set used to spot the same moment described by two windows
+ */
+function descriptionWords(description: string): Set<string> {
+  return new Set(
+    description
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}']+/u)
+      .filter((word) => word.length > 2)
+  );
+}
+
+/**
+ * Jaccard similarity of two descriptions' word sets
+ */
+function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = descriptionWords(a);
+  const wordsB = descriptionWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Merge per-window moments into one list for the whole video
+ * Duplicates from overlapping windows keep the copy generated furthest from a window edge,
+ * then the densest regions are thinned to the requested maximum count, or to the target
+ * interval when no count was requested
+ */
+export function reduceChunkMoments(
+  chunkMoments: KeyMoment[][],
+  chunks: TranscriptChunk[],
+  durationInSeconds: number,
+  isLongContent: boolean,
+  range?: MomentCountRange,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
+): KeyMoment[] {
+  const candidates: CandidateMoment[] = chunkMoments
+    .flatMap((moments, chunkIndex) => {
+      const chunk = chunks[chunkIndex];
+      return moments.map((moment) => {
+        const seconds = parseMomentTime(moment.time);
+        return {
+          ...moment,
+          seconds,
+          edgeDistance: Math.min(seconds - chunk.startSeconds, chunk.endSeconds - seconds),
+        };
+      });
+    })
+    .filter((moment) => Number.isFinite(moment.seconds) && moment.seconds <= durationInSeconds)
+    .sort((a, b) => a.seconds - b.seconds);
+
+  // 1. De-duplicate moments reported by two windows around the same boundary
+  const unique: CandidateMoment[] = [];
+  for (const candidate of candidates) {
+    const duplicateIndex = unique.findIndex(
+      (kept) =>
+        Math.abs(kept.seconds - candidate.seconds) < config.minGapSeconds ||
+        (Math.abs(kept.seconds - candidate.seconds) <= config.overlapSeconds &&
+          descriptionSimilarity(kept.description, candidate.description) >= 0.4)
+    );
+
+    if (duplicateIndex === -1) {
+      unique.push(candidate);
+    } else if (candidate.edgeDistance > unique[duplicateIndex].edgeDistance) {
+      unique[duplicateIndex] = candidate;
+    }
+  }
+  unique.sort((a, b) => a.seconds - b.seconds);
+
+  // 2. Enforce density: drop the moment closest to its predecessor until under the target
+  const maxMoments = range
+    ? Math.max(1, range.max)
+    : Math.max(1, Math.ceil(durationInSeconds / config.targetIntervalSeconds));
+  while (unique.length > maxMoments) {
+    let densestIndex = 1;
+    for (let index = 2; index < unique.length; index++) {
+      const gap = unique[index].seconds - unique[index - 1].seconds;
+      if (gap < unique[densestIndex].seconds - unique[densestIndex - 1].seconds) {
+        densestIndex = index;
+      }
+    }
+    unique.splice(densestIndex, 1);
+  }
+
+  return unique.map((moment) => ({
+    time: formatMomentTime(moment.seconds, isLongContent),
+    description: moment.description,
+  }));
+}
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { findCoverageGaps, spliceGapMoments, type CoverageGap } from "./coverage";
+import type { KeyMoment } from "./normalizer";
+
+/**
+ * Key moments at the given MM:SS times
+ */
+function momentsAt(...times: string[]): KeyMoment[] {
+  return times.map((time, index) => ({ time, description: `Topic ${index + 1}` }));
+}
+
+describe("findCoverageGaps", () => {
+  test("finds internal gaps and a truncated tail, largest first", () => {
+    const gaps = findCoverageGaps(momentsAt("00:00", "05:00", "25:00", "30:00"), 3600);
+
+    expect(gaps).toEqual([
+      { kind: "tail", startSeconds: 1800, endSeconds: 3600 },
+      { kind: "internal", startSeconds: 300, endSeconds: 1500 },
+    ]);
+  });
+
+  test("finds nothing when moments are close enough", () => {
+    expect(findCoverageGaps(momentsAt("00:00", "10:00", "20:00"), 1380)).toEqual([]);
+  });
+
+  test("treats a response without moments as one tail gap", () => {
+    expect(findCoverageGaps([], 1200)).toEqual([
+      { kind: "tail", startSeconds: 0, endSeconds: 1200 },
+    ]);
+  });
+
+  test("caps the number of repair ranges", () => {
+    const config = {
+      maxGapSeconds: 60,
+      maxTailGapSeconds: 60,
+      maxRepairRanges: 2,
+      minGapSeconds: 30,
+    };
+    const gaps = findCoverageGaps(momentsAt("00:00", "05:00", "08:00", "10:00"), 900, config);
+
+    expect(gaps.map((gap) => gap.startSeconds)).toEqual([0, 600]);
+  });
+});
+
+describe("spliceGapMoments", () => {
+  const gap: CoverageGap = { kind: "internal", startSeconds: 300, endSeconds: 1500 };
+
+  test("inserts moments inside the gap in time order", () => {
+    const spliced = spliceGapMoments(
+      momentsAt("00:00", "05:00", "25:00"),
+      [{ gap, moments: [{ time: "15:00", description: "Filled" }] }],
+      false
+    );
+
+    expect(spliced.map((moment) => moment.time)).toEqual(["00:00", "05:00", "15:00", "25:00"]);
+  });
+
+  test("drops moments outside their gap or crowding an existing moment", () => {
+    const spliced = spliceGapMoments(
+      momentsAt("00:00", "05:00", "25:00"),
+      [
+        {
+          gap,
+          moments: [
+            { time: "05:30", description: "Too close to 05:00" },
+            { time: "12:00", description: "Kept" },
+            { time: "12:40", description: "Too close to the one just kept" },
+            { time: "26:00", description: "Outside the gap" },
+          ],
+        },
+      ],
+      false
+    );
+
+    expect(spliced.map((moment) => moment.description)).toEqual([
+      "Topic 1",
+      "Topic 2",
+      "Kept",
+      "Topic 3",
+    ]);
+  });
+
+  test("keeps grounding flags and reformats times for long videos", () => {
+    const spliced = spliceGapMoments(
+      [{ time: "00:00", description: "Intro", ungrounded: true }],
+      [
+        {
+          gap: { kind: "tail", startSeconds: 0, endSeconds: 4000 },
+          moments: [{ time: "1:00:00", description: "An hour in" }],
+        },
+      ],
+      true
+    );
+
+    expect(spliced).toEqual([
+      { time: "00:00:00", description: "Intro", ungrounded: true },
+      { time: "01:00:00", description: "An hour in" },
+    ]);
+  });
+});
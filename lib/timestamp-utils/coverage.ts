@@ -0,0 +1,87 @@
+/**
+ * Coverage analysis for generated key moments
+ * Finds internal gaps and tail truncation, and splices re-generated moments into them
+ */
+
+import { formatMomentTime, parseMomentTime, type KeyMoment } from "./normalizer";
+
+export interface CoverageConfig {
+  maxGapSeconds: number; // Longest allowed stretch between two moments
+  maxTailGapSeconds: number; // Longest allowed stretch between the last moment and the video end
+  maxRepairRanges: number; // Cap on re-prompted ranges per request
+  minGapSeconds: number; // Repaired moments closer than this to an existing one are dropped
+}
+
+export const DEFAULT_COVERAGE_CONFIG: CoverageConfig = {
+  maxGapSeconds: 15 * 60,
+  maxTailGapSeconds: 5 * 60,
+  maxRepairRanges: 4,
+  minGapSeconds: 60,
+};
+
+export interface CoverageGap {
+  kind: "internal" | "tail";
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/**
+ * Find stretches of the video that no key moment covers, largest first
+ */
+export function findCoverageGaps(
+  moments: KeyMoment[],
+  durationInSeconds: number,
+  config: CoverageConfig = DEFAULT_COVERAGE_CONFIG
+): CoverageGap[] {
+  const times = moments.map((moment) => parseMomentTime(moment.time)).sort((a, b) => a - b);
+  const gaps: CoverageGap[] = [];
+
+  for (let index = 1; index < times.length; index++) {
+    if (times[index] - times[index - 1] > config.maxGapSeconds) {
+      gaps.push({ kind: "internal", startSeconds: times[index - 1], endSeconds: times[index] });
+    }
+  }
+
+  const lastTime = times.length > 0 ? times[times.length - 1] : 0;
+  if (durationInSeconds - lastTime > config.maxTailGapSeconds) {
+    gaps.push({ kind: "tail", startSeconds: lastTime, endSeconds: durationInSeconds });
+  }
+
+  return gaps
+    .sort((a, b) => b.endSeconds - b.startSeconds - (a.endSeconds - a.startSeconds))
+    .slice(0, config.maxRepairRanges);
+}
+
+/**
+ * Merge moments generated for gaps into the original list
+ * Only moments inside their gap and not crowding an existing moment are kept
+ */
+export function spliceGapMoments(
+  moments: KeyMoment[],
+  repairs: Array<{ gap: CoverageGap; moments: KeyMoment[] }>,
+  isLongContent: boolean,
+  config: CoverageConfig = DEFAULT_COVERAGE_CONFIG
+): KeyMoment[] {
+  const merged = moments.map((moment) => ({ ...moment, seconds: parseMomentTime(moment.time) }));
+
+  for (const { gap, moments: gapMoments } of repairs) {
+    for (const moment of gapMoments) {
+      const seconds = parseMomentTime(moment.time);
+      const insideGap = seconds > gap.startSeconds && seconds < gap.endSeconds;
+      const crowded = merged.some(
+        (existing) => Math.abs(existing.seconds - seconds) < config.minGapSeconds
+      );
+
+      if (Number.isFinite(seconds) && insideGap && !crowded) {
+        merged.push({ ...moment, seconds });
+      }
+    }
+  }
+
+  return merged
+    .sort((a, b) => a.seconds - b.seconds)
+    .map(({ seconds, ...moment }) => ({
+      ...moment,
+      time: formatMomentTime(seconds, isLongContent),
+    }));
+}
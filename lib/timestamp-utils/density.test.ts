@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import {
+  countChapters,
+  describeDensity,
+  findSparsestRanges,
+  mergeToMaxCount,
+  resolveMomentCount,
+  scaleDensity,
+} from "./density";
+import type { KeyMoment } from "./normalizer";
+
+/**
+ * Key moments at the given MM:SS times
+ */
+function momentsAt(...times: string[]): KeyMoment[] {
+  return times.map((time, index) => ({ time, description: `Topic ${index + 1}` }));
+}
+
+describe("resolveMomentCount", () => {
+  test("a target count wins over everything else", () => {
+    expect(resolveMomentCount({ targetCount: 8, minCount: 2, maxCount: 20 }, 3600)).toEqual({
+      min: 8,
+      max: 8,
+      target: 8,
+    });
+  });
+
+  test("turns an interval into a range around its count", () => {
+    expect(resolveMomentCount({ targetIntervalSeconds: 300 }, 3600)).toEqual({
+      min: 9,
+      max: 15,
+      target: 12,
+    });
+  });
+
+  test("narrows an interval's range with an explicit maximum", () => {
+    expect(resolveMomentCount({ targetIntervalSeconds: 300, maxCount: 10 }, 3600)).toEqual({
+      min: 9,
+      max: 10,
+      target: 10,
+    });
+  });
+
+  test("uses an open range for a minimum alone, and nothing without options", () => {
+    expect(resolveMomentCount({ minCount: 5 }, 3600)).toEqual({ min: 5, max: Infinity });
+    expect(resolveMomentCount({}, 3600)).toBeUndefined();
+    expect(resolveMomentCount(undefined, 3600)).toBeUndefined();
+  });
+});
+
+describe("scaleDensity", () => {
+  test("scales counts to the window's share of the video and keeps the interval", () => {
+    expect(
+      scaleDensity(
+        { targetCount: 10, minCount: 5, maxCount: 15, targetIntervalSeconds: 300 },
+        900,
+        3600
+      )
+    ).toEqual({ targetCount: 3, minCount: 1, maxCount: 4, targetIntervalSeconds: 300 });
+  });
+});
+
+describe("describeDensity", () => {
+  test("describes exact, interval and open-ended counts", () => {
+    expect(describeDensity({ targetCount: 1 }, 600)).toBe("exactly 1 key moment");
+    expect(describeDensity({ targetIntervalSeconds: 90 }, 900)).toBe(
+      "one key moment roughly every 90 seconds, about 10 key moments (between 7 and 13) in total"
+    );
+    expect(describeDensity({ minCount: 4 }, 600)).toBe("at least 4 key moments");
+    expect(describeDensity({ maxCount: 6 }, 600)).toBe("at most 6 key moments");
+    expect(describeDensity(undefined, 600)).toBe("");
+  });
+});
+
+describe("countChapters", () => {
+  test("counts the intro chapter the chapter rules will insert", () => {
+    expect(countChapters(momentsAt("00:00", "05:00"))).toBe(2);
+    expect(countChapters(momentsAt("01:00", "05:00"))).toBe(3);
+    expect(countChapters([])).toBe(0);
+  });
+});
+
+describe("mergeToMaxCount", () => {
+  test("merges the moments that leave the shortest combined chapters", () => {
+    const { keyMoments, merged } = mergeToMaxCount(
+      momentsAt("00:00", "01:00", "10:00", "11:00", "20:00"),
+      3,
+      1800,
+      false
+    );
+
+    expect(keyMoments.map((moment) => moment.time)).toEqual(["00:00", "10:00", "20:00"]);
+    expect(merged).toBe(2);
+  });
+
+  test("never removes the first moment and keeps at least one", () => {
+    const { keyMoments } = mergeToMaxCount(momentsAt("00:00", "00:30", "20:00"), 0, 1800, false);
+
+    expect(keyMoments).toEqual(momentsAt("00:00"));
+  });
+
+  test("sorts the moments and leaves a list within the limit alone", () => {
+    const { keyMoments, merged } = mergeToMaxCount(momentsAt("10:00", "00:00"), 5, 1800, true);
+
+    expect(keyMoments.map((moment) => moment.time)).toEqual(["00:00:00", "00:10:00"]);
+    expect(merged).toBe(0);
+  });
+});
+
+describe("findSparsestRanges", () => {
+  test("returns the widest stretches first, including the tail", () => {
+    expect(findSparsestRanges(momentsAt("00:00", "02:00", "12:00"), 1200, 2)).toEqual([
+      { kind: "internal", startSeconds: 120, endSeconds: 720 },
+      { kind: "tail", startSeconds: 720, endSeconds: 1200 },
+    ]);
+  });
+
+  test("covers the start of the video when no moment is at 00:00", () => {
+    expect(findSparsestRanges(momentsAt("08:00"), 600, 1)).toEqual([
+      { kind: "internal", startSeconds: 0, endSeconds: 480 },
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Chapter density controls
+ * Turns a requested count or interval into a range of key moments, describes it for the prompt,
+ * and merges key moments when a response has more than the range allows
+ */
+
+import { YOUTUBE_CHAPTER_RULES } from "./chapter-validator";
+import type { CoverageGap } from "./coverage";
+import { formatMomentTime, parseMomentTime, type KeyMoment } from "./normalizer";
+
+export interface DensityOptions {
+  targetCount?: number; // Exact number of key moments
+  minCount?: number;
+  maxCount?: number;
+  targetIntervalSeconds?: number; // One key moment roughly this often
+}
+
+export interface MomentCountRange {
+  min: number;
+  max: number; // Infinity when only a minimum was requested
+  target?: number; // Preferred count inside the range
+}
+
+export interface DensityMergeResult {
+  keyMoments: KeyMoment[];
+  merged: number; // Key moments merged into the one before them
+}
+
+// How far a count derived from a target interval may drift before it's enforced
+const INTERVAL_COUNT_TOLERANCE = 0.25;
+
+/**
+ * Resolve density options to the range of key moments allowed for a stretch of video
+ * A target count wins over everything else; an explicit min or max narrows an interval's range
+ */
+export function resolveMomentCount(
+  options: DensityOptions | undefined,
+  durationInSeconds: number
+): MomentCountRange | undefined {
+  if (!options) return undefined;
+  const { targetCount, minCount, maxCount, targetIntervalSeconds } = options;
+
+  if (targetCount) return { min: targetCount, max: targetCount, target: targetCount };
+
+  if (targetIntervalSeconds) {
+    const target = Math.max(1, Math.round(durationInSeconds / targetIntervalSeconds));
+    const min =
+      minCount ??
+      Math.max(
+        1,
+        Math.min(Math.floor(target * (1 - INTERVAL_COUNT_TOLERANCE)), maxCount ?? target)
+      );
+    const max = maxCount ?? Math.max(Math.ceil(target * (1 + INTERVAL_COUNT_TOLERANCE)), min);
+    return { min, max, target: Math.min(Math.max(target, min), max) };
+  }
+
+  if (!minCount && !maxCount) return undefined;
+  return { min: minCount ?? 1, max: maxCount ?? Infinity };
+}
+
+/**
+ * Scale density options to an excerpt of the video, keeping the interval as requested
+ */
+export function scaleDensity(
+  options: DensityOptions,
+  windowSeconds: number,
+  durationInSeconds: number
+): DensityOptions {
+  const share = durationInSeconds > 0 ? Math.min(windowSeconds / durationInSeconds, 1) : 1;
+  const scale = (count: number | undefined, round: (value: number) => number) =>
+    count && Math.max(1, round(count * share));
+
+  return {
+    targetCount: scale(options.targetCount, Math.round),
+    minCount: scale(options.minCount, Math.floor),
+    maxCount: scale(options.maxCount, Math.ceil),
+    targetIntervalSeconds: options.targetIntervalSeconds,
+  };
+}
+
+/**
+ * "3 minutes" / "90 seconds"
+ */
+function formatInterval(seconds: number): string {
+  if (seconds < 120) return `${Math.round(seconds)} seconds`;
+  return `${Math.round(seconds / 60)} minutes`;
+}
+
+/**
+ * "1 key moment" / "8 key moments"
+ */
+function countMoments(count: number): string {
+  return `${count} ${count === 1 ? "key moment" : "key moments"}`;
+}
+
+/**
+ * Describe the requested density for the prompt, e.g. "exactly 8 key moments"
+ * Returns an empty string when no density was requested
+ */
+export function describeDensity(
+  options: DensityOptions | undefined,
+  durationInSeconds: number
+): string {
+  const range = resolveMomentCount(options, durationInSeconds);
+  if (!options || !range) return "";
+
+  let count: string;
+  if (range.min === range.max) {
+    count = `exactly ${countMoments(range.min)}`;
+  } else if (range.target !== undefined) {
+    count = `about ${countMoments(range.target)} (between ${range.min} and ${range.max})`;
+  } else if (range.max === Infinity) {
+    count = `at least ${countMoments(range.min)}`;
+  } else if (range.min > 1) {
+    count = `between ${range.min} and ${range.max} key moments`;
+  } else {
+    count = `at most ${countMoments(range.max)}`;
+  }
+
+  return options.targetIntervalSeconds && !options.targetCount
+    ? `one key moment roughly every ${formatInterval(options.targetIntervalSeconds)}, ${count} in total`
+    : count;
+}
+
+/**
+ * Number of chapters the key moments become once the chapter rules have inserted an intro
+ * chapter, which happens when no moment starts near 00:00
+ */
+export function countChapters(moments: KeyMoment[]): number {
+  if (moments.length === 0) return 0;
+  const firstSeconds = Math.min(...moments.map((moment) => parseMomentTime(moment.time)));
+  return moments.length + (firstSeconds >= YOUTUBE_CHAPTER_RULES.minChapterSeconds ? 1 : 0);
+}
+
+/**
+ * Merge key moments into the one before them until at most `maxCount` remain
+ * Each step removes the moment that leaves the shortest combined chapter, so the remaining
+ * chapters stay evenly spread. The first moment is never removed
+ */
+export function mergeToMaxCount(
+  moments: KeyMoment[],
+  maxCount: number,
+  durationInSeconds: number,
+  isLongContent: boolean
+): DensityMergeResult {
+  const chapters = moments
+    .map((moment) => ({ ...moment, seconds: parseMomentTime(moment.time) }))
+    .sort((a, b) => a.seconds - b.seconds);
+  const limit = Math.max(1, maxCount);
+  let merged = 0;
+
+  while (chapters.length > limit) {
+    let shortestIndex = 1;
+    let shortestSeconds = Infinity;
+    for (let index = 1; index < chapters.length; index++) {
+      const end = chapters[index + 1]?.seconds ?? durationInSeconds;
+      const combinedSeconds = end - chapters[index - 1].seconds;
+      if (combinedSeconds < shortestSeconds) {
+        shortestIndex = index;
+        shortestSeconds = combinedSeconds;
+      }
+    }
+    chapters.splice(shortestIndex, 1);
+    merged++;
+  }
+
+  const keyMoments = chapters.map(({ seconds, ...moment }) => ({
+    ...moment,
+    time: formatMomentTime(seconds, isLongContent),
+  }));
+
+  return { keyMoments, merged };
+}
+
+/**
+ * The widest stretches between key moments (and before the video end), widest first
+ * Used to ask the model for more moments where the response is sparsest
+ */
+export function findSparsestRanges(
+  moments: KeyMoment[],
+  durationInSeconds: number,
+  limit: number
+): CoverageGap[] {
+  const times = moments.map((moment) => parseMomentTime(moment.time)).sort((a, b) => a - b);
+  const boundaries = [...(times[0] === 0 ? [] : [0]), ...times, durationInSeconds];
+
+  return boundaries
+    .slice(1)
+    .map((endSeconds, index): CoverageGap => ({
+      kind: endSeconds === durationInSeconds ? "tail" : "internal",
+      startSeconds: boundaries[index],
+      endSeconds,
+    }))
+    .filter((range) => range.endSeconds > range.startSeconds)
+    .sort((a, b) => b.endSeconds - b.startSeconds - (a.endSeconds - a.startSeconds))
+    .slice(0, limit);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { parseSrtContent, secondsToTimestamp } from "@/lib/srt-parser";
+import { DEFAULT_GROUNDING_CONFIG, groundKeyMoments, scoreGrounding } from "./grounding";
+
+// Cues at 0s, 62s and 185s about three different topics
+const ENTRIES = parseSrtContent(
+  [
+    [0, "Welcome to the stream, today we build a subtitle parser"],
+    [62, "First we install the dependencies and configure TypeScript"],
+    [185, "Now let's talk about pricing plans for the hosted version"],
+  ]
+    .map(([start, text], index) =>
+      [
+        String(index + 1),
+        `${secondsToTimestamp(Number(start))} --> ${secondsToTimestamp(Number(start) + 30)}`,
+        text,
+      ].join("\n")
+    )
+    .join("\n\n")
+);
+
+describe("scoreGrounding", () => {
+  test("scores the share of content words found in the context, ignoring word endings", () => {
+    expect(scoreGrounding("Installing dependencies", "we install the dependencies")).toBe(1);
+    expect(scoreGrounding("Pricing and billing", "the price of the plan")).toBe(0.5);
+  });
+
+  test("can't judge descriptions with fewer than two content words", () => {
+    expect(scoreGrounding("Intro", "welcome everyone")).toBeNull();
+    expect(scoreGrounding("The end of it", "goodbye")).toBeNull();
+  });
+});
+
+describe("groundKeyMoments", () => {
+  test("snaps times within the tolerance onto cue starts", () => {
+    const { keyMoments, report } = groundKeyMoments(
+      [
+        { time: "00:00", description: "Intro" },
+        { time: "01:05", description: "Installing dependencies" },
+        { time: "02:40", description: "Pricing plans" },
+      ],
+      ENTRIES,
+      false
+    );
+
+    expect(keyMoments.map((moment) => moment.time)).toEqual(["00:00", "01:02", "02:40"]);
+    expect(report.snapped).toBe(1);
+  });
+
+  test("doesn't snap a moment onto the previous moment's time", () => {
+    const { keyMoments } = groundKeyMoments(
+      [
+        { time: "01:02", description: "Installing dependencies" },
+        { time: "01:08", description: "Configuring TypeScript" },
+      ],
+      ENTRIES,
+      false
+    );
+
+    expect(keyMoments.map((moment) => moment.time)).toEqual(["01:02", "01:08"]);
+  });
+
+  test("flags descriptions that don't match the captions, except the opening moment", () => {
+    const moments = [
+      { time: "00:00", description: "Cooking pasta recipes" },
+      { time: "01:02", description: "Cooking pasta recipes" },
+      { time: "03:05", description: "Pricing plans" },
+    ];
+    const { keyMoments, report } = groundKeyMoments(moments, ENTRIES, false);
+
+    expect(keyMoments.map((moment) => moment.ungrounded)).toEqual([undefined, true, undefined]);
+    expect(report.flagged).toBe(1);
+  });
+
+  test("drops ungrounded moments when asked to", () => {
+    const { keyMoments, report } = groundKeyMoments(
+      [
+        { time: "00:00", description: "Subtitle parser" },
+        { time: "01:02", description: "Cooking pasta recipes" },
+      ],
+      ENTRIES,
+      true,
+      { ...DEFAULT_GROUNDING_CONFIG, ungroundedAction: "drop" }
+    );
+
+    expect(keyMoments).toEqual([{ time: "00:00:00", description: "Subtitle parser" }]);
+    expect(report.dropped).toBe(1);
+    expect(report.averageScore).toBe(0.5);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Grounding checks for generated key moments
+ * Snaps times to real cue starts and scores how well each description matches what is said there
+ */
+
+import { timestampToSeconds, type SrtEntry } from "@/lib/srt-parser";
+import { formatMomentTime, parseMomentTime, type KeyMoment } from "./normalizer";
+
+export interface GroundingConfig {
+  snapToleranceSeconds: number; // Max distance to move a time onto a cue start
+  contextBeforeSeconds: number; // Transcript read before the moment when scoring
+  contextAfterSeconds: number; // Transcript read after the moment when scoring
+  minScore: number; // Moments scoring below this are ungrounded (0..1)
+  ungroundedAction: "flag" | "drop";
+}
+
+export const DEFAULT_GROUNDING_CONFIG: GroundingConfig = {
+  snapToleranceSeconds: 10,
+  contextBeforeSeconds: 15,
+  contextAfterSeconds: 90,
+  minScore: 0.2,
+  ungroundedAction: "flag",
+};
+
+export interface GroundingReport {
+  snapped: number;
+  flagged: number;
+  dropped: number;
+  averageScore: number;
+}
+
+export interface GroundingResult {
+  keyMoments: KeyMoment[];
+  report: GroundingReport;
+}
+
+// Words that carry no topic signal in a short description
+const STOP_WORDS = new Set(
+  (
+    "the and for with from into about how what why when this that these those his her their our " +
+    "your its are was were has have had not but you they them then than out over new using use " +
+    "via vs part final first next"
+  ).split(" ")
+);
+
+/**
+ * Reduce a word to a rough stem so "pricing" matches "price" and "demos" matches "demo"
+ */
+function stemWord(word: string): string {
+  return word.replace(/(?:ing|ed|es|s|e)$/, "");
+}
+
+/**
+ * Content words of a text, stemmed and without stop words
+ */
+function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map(stemWord);
+}
+
+/**
+ * Share of the description's content words that occur in the transcript context (0..1)
+ * Returns null when the description has too few content words to judge
+ */
+export function scoreGrounding(description: string, contextText: string): number | null {
+  const words = [...new Set(contentWords(description))];
+  if (words.length < 2) return null;
+
+  const context = new Set(contentWords(contextText));
+  return words.filter((word) => context.has(word)).length / words.length;
+}
+
+/**
+ * Snap moment times to the nearest cue start and score each description against its cues
+ * The opening moment is never dropped so the list still starts at the beginning
+ */
+export function groundKeyMoments(
+  moments: KeyMoment[],
+  entries: SrtEntry[],
+  isLongContent: boolean,
+  config: GroundingConfig = DEFAULT_GROUNDING_CONFIG
+): GroundingResult {
+  const cues = entries
+    .map((entry) => ({ start: timestampToSeconds(entry.startTime), text: entry.plainText }))
+    .sort((a, b) => a.start - b.start);
+
+  let snapped = 0;
+  let flagged = 0;
+  let dropped = 0;
+  const scores: number[] = [];
+  const keyMoments: KeyMoment[] = [];
+
+  moments.forEach((moment, index) => {
+    let seconds = parseMomentTime(moment.time);
+
+    const nearest = cues.reduce<(typeof cues)[number] | null>(
+      (best, cue) =>
+        !best || Math.abs(cue.start - seconds) < Math.abs(best.start - seconds) ? cue : best,
+      null
+    );
+    // Skip the snap when it would land on the previous moment's time
+    const previous = keyMoments[keyMoments.length - 1];
+    const cueSeconds = nearest ? Math.floor(nearest.start) : seconds;
+    if (
+      nearest &&
+      Math.abs(nearest.start - seconds) <= config.snapToleranceSeconds &&
+      (!previous || parseMomentTime(previous.time) < cueSeconds)
+    ) {
+      if (cueSeconds !== seconds) snapped++;
+      seconds = cueSeconds;
+    }
+
+    const contextText = cues
+      .filter(
+        (cue) =>
+          cue.start >= seconds - config.contextBeforeSeconds &&
+          cue.start <= seconds + config.contextAfterSeconds
+      )
+      .map((cue) => cue.text)
+      .join(" ");
+    const score = scoreGrounding(moment.description, contextText);
+    if (score !== null) scores.push(score);
+
+    const isUngrounded = index > 0 && score !== null && score < config.minScore;
+    if (isUngrounded && config.ungroundedAction === "drop") {
+      dropped++;
+      return;
+    }
+    if (isUngrounded) flagged++;
+
+    keyMoments.push({
+      ...moment,
+      time: formatMomentTime(seconds, isLongContent),
+      ...(isUngrounded ? { ungrounded: true } : {}),
+    });
+  });
+
+  return {
+    keyMoments,
+    report: {
+      snapped,
+      flagged,
+      dropped,
+      averageScore:
+        scores.length > 0 ? scores.reduce((total, score) => total + score, 0) / scores.length : 0,
+    },
+  };
+}
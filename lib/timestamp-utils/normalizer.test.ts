@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import {
+  countNormalizationChanges,
+  formatMomentTime,
+  normalizeTimestampFormat,
+  parseMomentTime,
+} from "./normalizer";
+
+describe("normalizeTimestampFormat", () => {
+  test("uses MM:SS for videos under an hour", () => {
+    expect(normalizeTimestampFormat("0:05:07", false)).toBe("05:07");
+    expect(normalizeTimestampFormat("5:07", false)).toBe("05:07");
+  });
+
+  test("uses HH:MM:SS for videos over an hour", () => {
+    expect(normalizeTimestampFormat("05:07", true)).toBe("00:05:07");
+    expect(normalizeTimestampFormat("1:5:7", true)).toBe("01:05:07");
+  });
+
+  test("leaves times it can't read alone", () => {
+    expect(normalizeTimestampFormat("soon", false)).toBe("soon");
+  });
+});
+
+describe("countNormalizationChanges", () => {
+  test("counts only the times normalization would rewrite", () => {
+    const response = {
+      keyMoments: [
+        { time: "00:00", description: "Intro" },
+        { time: "0:05:07", description: "Setup" },
+        { time: "9:30", description: "Build" },
+      ],
+    };
+
+    expect(countNormalizationChanges(response, false)).toBe(2);
+  });
+});
+
+describe("parseMomentTime and formatMomentTime", () => {
+  test("read MM:SS and HH:MM:SS as seconds", () => {
+    expect(parseMomentTime("05:07")).toBe(307);
+    expect(parseMomentTime("01:02:03")).toBe(3723);
+  });
+
+  test("format seconds for short and long videos, dropping fractions", () => {
+    expect(formatMomentTime(307.9, false)).toBe("05:07");
+    expect(formatMomentTime(307, true)).toBe("00:05:07");
+    expect(formatMomentTime(3723, true)).toBe("01:02:03");
+  });
+
+  test("round-trip", () => {
+    for (const time of ["00:00", "09:59", "59:59"]) {
+      expect(formatMomentTime(parseMomentTime(time), false)).toBe(time);
+    }
+  });
+});
@@ -6,6 +6,7 @@
 export interface KeyMoment {
   time: string;
   description: string;
+  ungrounded?: boolean; // Set when the description does not match the transcript at this time
 }
 
 export interface TimestampResponse {
@@ -55,6 +56,18 @@ export function normalizeTimestampFormat(timestamp: string, isLongContent: boole
   return timestamp;
 }
 
+/**
+ * Count the timestamps normalization would change
+ */
+export function countNormalizationChanges(
+  response: TimestampResponse,
+  isLongContent: boolean
+): number {
+  return response.keyMoments.filter(
+    (moment) => normalizeTimestampFormat(moment.time, isLongContent) !== moment.time
+  ).length;
+}
+
 /**
  * Normalize all timestamps in the response based on video duration
  */
@@ -71,9 +84,7 @@ export function normalizeTimestampResponse(
   };
 
   // Log normalization for debugging
-  const changedCount = response.keyMoments.filter(
-    (moment, index) => moment.time !== normalized.keyMoments[index].time
-  ).length;
+  const changedCount = countNormalizationChanges(response, isLongContent);
 
   if (changedCount > 0) {
     console.log(`📝 Normalized ${changedCount} timestamps for format consistency`);
@@ -82,3 +93,27 @@ export function normalizeTimestampResponse(
 
   return normalized;
 }
+
+/**
+ * Convert a key moment time (MM:SS or HH:MM:SS) to seconds
+ */
+export function parseMomentTime(time: string): number {
+  const parts = time.split(":").map(Number);
+  return parts.length === 3
+    ? parts[0] * 3600 + parts[1] * 60 + parts[2]
+    : parts[0] * 60 + parts[1];
+}
+
+/**
+ * Format seconds as a key moment time (MM:SS or HH:MM:SS with leading zeros)
+ */
+export function formatMomentTime(totalSeconds: number, isLongContent: boolean): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+
+  return normalizeTimestampFormat(
+    `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`,
+    isLongContent
+  );
+}
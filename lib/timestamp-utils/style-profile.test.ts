@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import type { KeyMoment } from "./normalizer";
+import {
+  applyCasing,
+  applyStyleProfile,
+  DEFAULT_STYLE_PROFILE,
+  type StyleProfile,
+} from "./style-profile";
+
+/**
+ * A profile with the defaults and the given overrides
+ */
+function profile(overrides: Partial<StyleProfile> = {}): StyleProfile {
+  return { name: "Test channel", ...DEFAULT_STYLE_PROFILE, ...overrides };
+}
+
+/**
+ * Key moments one minute apart with the given descriptions
+ */
+function moments(...descriptions: string[]): KeyMoment[] {
+  return descriptions.map((description, index) => ({
+    time: `${String(index).padStart(2, "0")}:00`,
+    description,
+  }));
+}
+
+describe("applyCasing", () => {
+  test("applies title case with small words lowercase after the first", () => {
+    expect(applyCasing("the art of building a parser", "title")).toBe(
+      "The Art of Building a Parser"
+    );
+  });
+
+  test("keeps acronyms and mixed-case names as written", () => {
+    expect(applyCasing("running MLX on an iPhone", "title")).toBe("Running MLX on an iPhone");
+    expect(applyCasing("Running MLX On iPhone", "lower")).toBe("running MLX on iPhone");
+  });
+
+  test("only lowercases later words in sentence case when the whole text is title cased", () => {
+    expect(applyCasing("Setting Up The Project", "sentence")).toBe("Setting up the project");
+    expect(applyCasing("talking with Sarah about pricing", "sentence")).toBe(
+      "Talking with Sarah about pricing"
+    );
+  });
+});
+
+describe("applyStyleProfile", () => {
+  test("strips emoji when the profile doesn't allow them", () => {
+    const result = applyStyleProfile(
+      moments("🚀 Launch day", "Q&A 🎉🎉", "Plain"),
+      profile({ emoji: "none" })
+    );
+
+    expect(result.keyMoments.map((moment) => moment.description)).toEqual([
+      "Launch day",
+      "Q&A",
+      "Plain",
+    ]);
+    expect(result.fixes).toEqual(["Removed emoji from 2 descriptions"]);
+  });
+
+  test("strips flags, variation selectors and joined emoji sequences", () => {
+    const result = applyStyleProfile(
+      moments("Trip to 🇯🇵 Japan", "❤️ Thanks", "Team 👩‍💻 demo"),
+      profile({ emoji: "none" })
+    );
+
+    expect(result.keyMoments.map((moment) => moment.description)).toEqual([
+      "Trip to Japan",
+      "Thanks",
+      "Team demo",
+    ]);
+  });
+
+  test("leaves emoji alone when they are allowed", () => {
+    const [moment] = moments("🚀 Launch day");
+
+    expect(applyStyleProfile([moment], profile()).keyMoments[0]).toBe(moment);
+  });
+
+  test("drops moments that are only emoji or banned words", () => {
+    const result = applyStyleProfile(
+      moments("Intro", "🔥🔥🔥", "Insane", "Setup"),
+      profile({ emoji: "none", bannedWords: ["insane"] })
+    );
+
+    expect(result.keyMoments.map((moment) => moment.description)).toEqual(["Intro", "Setup"]);
+    expect(result.dropped).toBe(2);
+  });
+
+  test("removes banned words as whole words and phrases", () => {
+    const result = applyStyleProfile(
+      moments("Insane speed tricks (mind blowing)", "Insanely fast builds"),
+      profile({ bannedWords: ["insane", "mind blowing"] })
+    );
+
+    expect(result.keyMoments.map((moment) => moment.description)).toEqual([
+      "speed tricks",
+      "Insanely fast builds",
+    ]);
+  });
+
+  test("shortens long descriptions without leaving a dangling filler word", () => {
+    const result = applyStyleProfile(
+      moments("Setting up the database and the API keys"),
+      profile({ descriptionWords: { min: 1, max: 5 } })
+    );
+
+    expect(result.keyMoments[0].description).toBe("Setting up the database");
+    expect(result.fixes).toEqual(["Shortened 1 description to 5 words"]);
+  });
+
+  test("counts descriptions shorter than the minimum length", () => {
+    const result = applyStyleProfile(
+      moments("Intro", "Setting up the project", "Q&A"),
+      profile({ descriptionWords: { min: 3, max: 8 } })
+    );
+
+    expect(result.tooShort).toBe(2);
+    expect(result.keyMoments).toHaveLength(3);
+  });
+
+  test("falls back to the original wording without its emoji when too little is left", () => {
+    const result = applyStyleProfile(
+      moments("🎬 Go live"),
+      profile({ emoji: "none", descriptionWords: { min: 1, max: 1 } })
+    );
+
+    expect(result.keyMoments[0].description).toBe("Go live");
+  });
+});
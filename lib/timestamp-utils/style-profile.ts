@@ -0,0 +1,207 @@
+/**
+ * Channel style profiles
+ * A creator's own past chapter lists and wording preferences, used as few-shot examples in the
+ * prompt and enforced on the returned key moments
+ */
+
+import type { KeyMoment } from "./normalizer";
+
+export type DescriptionCasing = "as-is" | "sentence" | "title" | "lower";
+
+// "none" strips emoji, "allowed" leaves them alone, "preferred" also asks the model for them
+export type EmojiPolicy = "none" | "allowed" | "preferred";
+
+export interface StyleProfile {
+  name: string;
+  examples: string[]; // Past chapter lists, one "time description" per line
+  descriptionWords?: { min: number; max: number }; // Preferred description length in words
+  casing: DescriptionCasing;
+  emoji: EmojiPolicy;
+  bannedWords: string[]; // Words or phrases never used in descriptions
+}
+
+export const DEFAULT_STYLE_PROFILE: Omit<StyleProfile, "name"> = {
+  examples: [],
+  casing: "as-is",
+  emoji: "allowed",
+  bannedWords: [],
+};
+
+export interface StyleEnforcementResult {
+  keyMoments: KeyMoment[];
+  fixes: string[]; // Human-readable list of changes made
+  dropped: number; // Moments removed because their description was only banned words or emoji
+  tooShort: number; // Descriptions left shorter than the profile's minimum length
+}
+
+// Lowercase in title case unless first
+const TITLE_SMALL_WORDS = new Set(
+  "a an and as at but by for in nor of on or per the to vs via with".split(" ")
+);
+
+// Words left dangling at the end of a shortened description
+const TRAILING_FILLER_WORDS = new Set(
+  "a an and as at but by for from in into of on or the to with".split(" ")
+);
+
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{FE0F}\u{200D}]/gu;
+
+/**
+ * Whether casing a word would damage it: acronyms ("MLX") and mixed-case names ("iPhone")
+ */
+function hasFixedCase(word: string): boolean {
+  const letters = word.replace(/[^\p{L}]/gu, "");
+  return (letters.length > 1 && letters === letters.toUpperCase()) || /\p{Ll}\p{Lu}/u.test(letters);
+}
+
+/**
+ * Uppercase the first letter of a word
+ */
+function capitalize(word: string): string {
+  return word.replace(/\p{L}/u, (letter) => letter.toUpperCase());
+}
+
+/**
+ * Apply a casing style; acronyms and mixed-case names are kept as written
+ * Sentence case only lowercases later words when the whole description is in title case,
+ * since a capitalized word in an otherwise lowercase description is likely a name
+ */
+export function applyCasing(description: string, casing: DescriptionCasing): string {
+  if (casing === "as-is") return description;
+
+  const words = description.split(" ");
+  const longWords = words.filter((word) => word.length > 3);
+  const isTitleCased =
+    longWords.length > 1 && longWords.every((word) => /^\p{Lu}\p{Ll}/u.test(word));
+
+  return words
+    .map((word, index) => {
+      if (hasFixedCase(word)) return word;
+      const lower = word.toLowerCase();
+
+      if (casing === "lower") return lower;
+      if (casing === "sentence") {
+        return index === 0 ? capitalize(word) : isTitleCased ? lower : word;
+      }
+      return index > 0 && TITLE_SMALL_WORDS.has(lower) ? lower : capitalize(lower);
+    })
+    .join(" ");
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Collapse the spacing and punctuation left behind after removing words
+ */
+function tidyDescription(description: string): string {
+  return description
+    .replace(/\(\s*\)/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.:;!?)])/g, "$1")
+    .replace(/^[\s,.:;\-–—]+|[\s,:;\-–—]+$/g, "")
+    .trim();
+}
+
+/**
+ * "1 description" / "3 descriptions"
+ */
+function countDescriptions(count: number): string {
+  return `${count} ${count === 1 ? "description" : "descriptions"}`;
+}
+
+/**
+ * Enforce a style profile on generated key moments
+ * Banned words and (when disallowed) emoji are removed, long descriptions are shortened and
+ * casing is applied. A description that would end up empty keeps its original wording minus
+ * banned words and disallowed emoji, and the moment is removed when nothing else is left
+ * Short descriptions can't be lengthened without the model, so they are only counted
+ */
+export function applyStyleProfile(
+  moments: KeyMoment[],
+  profile: StyleProfile
+): StyleEnforcementResult {
+  const bannedPatterns = profile.bannedWords
+    .map((word) => word.trim())
+    .filter(Boolean)
+    .map((word) => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`, "giu"));
+
+  let bannedRemoved = 0;
+  let emojiRemoved = 0;
+  let shortened = 0;
+  let recased = 0;
+  let keptOriginal = 0;
+  let dropped = 0;
+  let tooShort = 0;
+
+  const minWords = profile.descriptionWords?.min ?? 0;
+  const keep = (moment: KeyMoment, description: string): KeyMoment[] => {
+    if (description.split(" ").length < minWords) tooShort++;
+    return [description === moment.description ? moment : { ...moment, description }];
+  };
+
+  const keyMoments = moments.flatMap((moment): KeyMoment[] => {
+    let description = moment.description;
+
+    const withoutBanned = bannedPatterns.reduce(
+      (text, pattern) => text.replace(pattern, ""),
+      description
+    );
+    if (withoutBanned !== description) bannedRemoved++;
+    description = withoutBanned;
+
+    if (profile.emoji === "none") {
+      const stripped = description.replace(EMOJI_PATTERN, "");
+      if (stripped !== description) emojiRemoved++;
+      description = stripped;
+    }
+    const cleaned = description;
+    description = tidyDescription(description);
+
+    const maxWords = profile.descriptionWords?.max;
+    const words = description.split(" ");
+    if (maxWords && words.length > maxWords) {
+      const kept = words.slice(0, maxWords);
+      while (kept.length > 1 && TRAILING_FILLER_WORDS.has(kept[kept.length - 1].toLowerCase())) {
+        kept.pop();
+      }
+      description = tidyDescription(kept.join(" "));
+      shortened++;
+    }
+
+    const cased = applyCasing(description, profile.casing);
+    if (cased !== description) recased++;
+    description = cased;
+
+    // Too little left: fall back to the original wording, but never with a banned word or a
+    // disallowed emoji in it
+    if (description.length < 3) {
+      const fallback = tidyDescription(cleaned);
+      if (cleaned !== moment.description && fallback.length < 3) {
+        dropped++;
+        return [];
+      }
+      keptOriginal++;
+      return keep(moment, cleaned === moment.description ? moment.description : fallback);
+    }
+    return keep(moment, description);
+  });
+
+  const fixes = [
+    bannedRemoved > 0 && `Removed banned words from ${countDescriptions(bannedRemoved)}`,
+    emojiRemoved > 0 && `Removed emoji from ${countDescriptions(emojiRemoved)}`,
+    shortened > 0 &&
+      `Shortened ${countDescriptions(shortened)} to ${profile.descriptionWords?.max} words`,
+    recased > 0 && `Applied ${profile.casing} case to ${countDescriptions(recased)}`,
+    keptOriginal > 0 &&
+      `Kept the original wording of ${countDescriptions(keptOriginal)} that would have been left empty`,
+    dropped > 0 &&
+      `Removed ${dropped} ${dropped === 1 ? "timestamp" : "timestamps"} whose description was only banned words or emoji`,
+  ].filter((fix): fix is string => Boolean(fix));
+
+  return { keyMoments, fixes, dropped, tooShort };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import { parseSrtContent, secondsToTimestamp, type SrtEntry } from "./srt-parser";
+import { cleanupTranscript, type CleanupOptions } from "./transcript-cleanup";
+
+/**
+ * Entries from [start, end, text] cues
+ */
+function cues(...list: Array<[number, number, string]>): SrtEntry[] {
+  return parseSrtContent(
+    list
+      .map(([start, end, text], index) =>
+        [
+          String(index + 1),
+          `${secondsToTimestamp(start)} --> ${secondsToTimestamp(end)}`,
+          text,
+        ].join("\n")
+      )
+      .join("\n\n")
+  );
+}
+
+/**
+ * Cleaned cue texts with only the named passes enabled
+ */
+function cleanedTexts(entries: SrtEntry[], options: Partial<CleanupOptions>): string[] {
+  return cleanupTranscript(entries, { mergeShortCues: false, ...options }).entries.map(
+    (entry) => entry.text
+  );
+}
+
+describe("cleanupTranscript", () => {
+  test("drops the words rolling captions repeat from the previous cue", () => {
+    const entries = cues(
+      [0, 3, "so today we are going"],
+      [3, 6, "we are going to build a parser"],
+      [6, 9, "to build a parser that handles SRT"]
+    );
+    const { entries: cleaned, report } = cleanupTranscript(entries, { mergeShortCues: false });
+
+    expect(cleaned.map((entry) => entry.text)).toEqual([
+      "so today we are going",
+      "to build a parser",
+      "that handles SRT",
+    ]);
+    expect(report.duplicatesRemoved).toBe(2);
+  });
+
+  test("matches rolling overlap regardless of case and punctuation", () => {
+    const entries = cues([0, 3, "Welcome back, everyone."], [3, 6, "back everyone to the stream"]);
+
+    expect(cleanedTexts(entries, {})).toEqual(["Welcome back, everyone.", "to the stream"]);
+  });
+
+  test("keeps a single shared word unless it's the whole cue", () => {
+    const entries = cues([0, 3, "pick the"], [3, 6, "the parser next"], [6, 9, "next"]);
+
+    expect(cleanedTexts(entries, {})).toEqual(["pick the", "the parser next"]);
+  });
+
+  test("extends the previous cue over a fully repeated one", () => {
+    const entries = cues([0, 3, "hello there friends"], [3, 8, "there friends"]);
+    const [cue] = cleanupTranscript(entries, { mergeShortCues: false }).entries;
+
+    expect(cue.text).toBe("hello there friends");
+    expect(cue.endTime).toBe("00:00:08,000");
+  });
+
+  test("removes fillers, sound tags and speaker change markers", () => {
+    const entries = cues(
+      [0, 3, "Um, so we start here"],
+      [3, 6, "[Music] >> and uh then this part"],
+      [6, 9, "♪ la la ♪ (applause) the end"]
+    );
+    const { entries: cleaned, report } = cleanupTranscript(entries, {
+      dedupeRollingCaptions: false,
+      mergeShortCues: false,
+    });
+
+    expect(cleaned.map((entry) => entry.text)).toEqual([
+      "so we start here",
+      "and then this part",
+      "the end",
+    ]);
+    expect(report.fillersRemoved).toBe(2);
+    expect(report.soundTagsRemoved).toBe(3);
+  });
+
+  test("merges tiny cues into the previous one up to the length limit", () => {
+    const entries = cues(
+      [0, 3, "this is the first cue"],
+      [3, 3.5, "quick one"],
+      [4, 8, "and a longer cue again"]
+    );
+
+    expect(cleanupTranscript(entries, { dedupeRollingCaptions: false }).entries).toHaveLength(2);
+    expect(
+      cleanupTranscript(entries, { dedupeRollingCaptions: false, maxMergedCharacters: 20 }).entries
+    ).toHaveLength(3);
+  });
+
+  test("never merges cues from different speakers", () => {
+    const entries = cues([0, 3, "RAY: this is my point"], [3, 3.5, "GUEST: sure"]);
+    const cleaned = cleanupTranscript(entries, { dedupeRollingCaptions: false }).entries;
+
+    expect(cleaned.map((entry) => entry.text)).toEqual(["RAY: this is my point", "GUEST: sure"]);
+  });
+
+  test("reports the cue counts and token savings", () => {
+    const entries = cues([0, 3, "um um um um hello"], [3, 6, "[Music]"]);
+    const { report } = cleanupTranscript(entries);
+
+    expect(report.entriesBefore).toBe(2);
+    expect(report.entriesAfter).toBe(1);
+    expect(report.estimatedTokensSaved).toBe(
+      report.estimatedTokensBefore - report.estimatedTokensAfter
+    );
+    expect(report.estimatedTokensSaved).toBeGreaterThan(0);
+  });
+});
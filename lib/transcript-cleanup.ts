@@ -0,0 +1,234 @@
+/**
+ * Transcript cleanup applied before prompting
+ * Removes rolling-caption repeats, filler words, sound-event tags and ">>" markers,
+ * and merges tiny cues so the prompt carries less noise for the same content
+ */
+
+import {
+  createSrtEntry,
+  secondsToTimestamp,
+  serializeSrt,
+  timestampToSeconds,
+  type SrtEntry,
+} from "./srt-parser";
+
+export interface CleanupOptions {
+  dedupeRollingCaptions: boolean; // Drop text repeated from the previous cue
+  removeFillers: boolean;
+  removeSoundTags: boolean; // [Music], (applause), ♪ lyrics ♪
+  removeSpeakerChangeMarkers: boolean; // ">>" used by broadcast captions
+  mergeShortCues: boolean;
+  minCueSeconds: number; // Cues shorter than this are merged into the previous cue
+  minCueWords: number; // Cues with fewer words than this are merged into the previous cue
+  maxMergedCharacters: number; // Never grow a merged cue beyond this length
+  fillerWords: string[];
+}
+
+export const DEFAULT_CLEANUP_OPTIONS: CleanupOptions = {
+  dedupeRollingCaptions: true,
+  removeFillers: true,
+  removeSoundTags: true,
+  removeSpeakerChangeMarkers: true,
+  mergeShortCues: true,
+  minCueSeconds: 1,
+  minCueWords: 3,
+  maxMergedCharacters: 200,
+  fillerWords: ["um", "umm", "uh", "uhh", "uh-huh", "erm", "er", "ah", "hmm", "mm", "mhm"],
+};
+
+export interface CleanupReport {
+  entriesBefore: number;
+  entriesAfter: number;
+  duplicatesRemoved: number; // Cues or cue prefixes repeated from the previous cue
+  fillersRemoved: number;
+  soundTagsRemoved: number;
+  cuesMerged: number;
+  estimatedTokensBefore: number;
+  estimatedTokensAfter: number;
+  estimatedTokensSaved: number;
+}
+
+export interface CleanupResult {
+  entries: SrtEntry[];
+  report: CleanupReport;
+}
+
+interface WorkingCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+// Bracketed or parenthesised non-speech annotations and music notes
+const SOUND_TAG_REGEX =
+  /\[[^\]]*\]|\((?:music|applause|laughter|laughs|laughing|cheering|inaudible|silence|noise|crosstalk|sighs)[^)]*\)|♪[^♪]*♪|♪/gi;
+
+const SPEAKER_CHANGE_REGEX = /(?:>>|&gt;&gt;)+/g;
+
+// A single shared word ("the", "and") is usually coincidence rather than a rolling repeat
+const MIN_ROLLING_OVERLAP_WORDS = 2;
+
+/**
+ * Rough token estimate (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Collapse whitespace and tidy spacing left behind by removed words
+ */
+function tidyText(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.!?;:])/g, "$1")
+    .replace(/^[\s,.;:-]+/, "")
+    .replace(/[\s,;:-]+$/, "")
+    .trim();
+}
+
+/**
+ * Normalize a word for overlap comparison (case and punctuation insensitive)
+ */
+function comparableWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+/**
+ * Length of the longest suffix of previous that equals a prefix of current
+ */
+function findRollingOverlap(previous: string[], current: string[]): number {
+  const maxOverlap = Math.min(previous.length, current.length);
+
+  for (let length = maxOverlap; length > 0; length--) {
+    let matches = true;
+    for (let index = 0; index < length; index++) {
+      if (previous[previous.length - length + index] !== current[index]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) return length;
+  }
+
+  return 0;
+}
+
+/**
+ * Clean up parsed entries before they are embedded in the prompt
+ * Timing is preserved: removed cues extend the previous cue rather than leaving gaps
+ */
+export function cleanupTranscript(
+  entries: SrtEntry[],
+  options: Partial<CleanupOptions> = {}
+): CleanupResult {
+  const config = { ...DEFAULT_CLEANUP_OPTIONS, ...options };
+  const fillerRegex = new RegExp(
+    `(^|[\\s,])(?:${config.fillerWords.map((word) => word.replace(/[-]/g, "\\-")).join("|")})(?=[\\s,.!?]|$)[,.]?`,
+    "gi"
+  );
+
+  let duplicatesRemoved = 0;
+  let fillersRemoved = 0;
+  let soundTagsRemoved = 0;
+  let cuesMerged = 0;
+
+  const cues: WorkingCue[] = [];
+
+  for (const entry of entries) {
+    let text = entry.plainText;
+
+    if (config.removeSoundTags) {
+      text = text.replace(SOUND_TAG_REGEX, () => {
+        soundTagsRemoved++;
+        return " ";
+      });
+    }
+
+    if (config.removeSpeakerChangeMarkers) {
+      text = text.replace(SPEAKER_CHANGE_REGEX, " ");
+    }
+
+    if (config.removeFillers && config.fillerWords.length > 0) {
+      text = text.replace(fillerRegex, (_, leading: string) => {
+        fillersRemoved++;
+        return leading;
+      });
+    }
+
+    text = tidyText(text);
+
+    const cue: WorkingCue = {
+      start: timestampToSeconds(entry.startTime),
+      end: timestampToSeconds(entry.endTime),
+      text,
+      speaker: entry.speaker,
+    };
+    const previous = cues[cues.length - 1];
+
+    if (config.dedupeRollingCaptions && previous && text) {
+      const previousWords = previous.text.split(" ").map(comparableWord);
+      const words = text.split(" ");
+      const overlap = findRollingOverlap(previousWords, words.map(comparableWord));
+
+      if (overlap >= MIN_ROLLING_OVERLAP_WORDS || (overlap > 0 && overlap === words.length)) {
+        duplicatesRemoved++;
+        cue.text = words.slice(overlap).join(" ");
+      }
+    }
+
+    if (!cue.text) {
+      // Nothing new in this cue: keep the timeline continuous through the previous cue
+      if (previous) previous.end = Math.max(previous.end, cue.end);
+      continue;
+    }
+
+    const isTiny =
+      cue.end - cue.start < config.minCueSeconds || cue.text.split(" ").length < config.minCueWords;
+
+    if (
+      config.mergeShortCues &&
+      previous &&
+      isTiny &&
+      previous.speaker === cue.speaker &&
+      previous.text.length + cue.text.length + 1 <= config.maxMergedCharacters
+    ) {
+      previous.text = `${previous.text} ${cue.text}`;
+      previous.end = Math.max(previous.end, cue.end);
+      cuesMerged++;
+      continue;
+    }
+
+    cues.push(cue);
+  }
+
+  const cleaned = cues.map((cue, index) =>
+    createSrtEntry(
+      index + 1,
+      secondsToTimestamp(cue.start),
+      secondsToTimestamp(cue.end),
+      // Keep the speaker label in the text so it survives serialization into the prompt
+      [cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text],
+      cue.speaker
+    )
+  );
+
+  const estimatedTokensBefore = estimateTokens(serializeSrt(entries));
+  const estimatedTokensAfter = estimateTokens(serializeSrt(cleaned));
+
+  return {
+    entries: cleaned,
+    report: {
+      entriesBefore: entries.length,
+      entriesAfter: cleaned.length,
+      duplicatesRemoved,
+      fillersRemoved,
+      soundTagsRemoved,
+      cuesMerged,
+      estimatedTokensBefore,
+      estimatedTokensAfter,
+      estimatedTokensSaved: Math.max(0, estimatedTokensBefore - estimatedTokensAfter),
+    },
+  };
+}
@@ -5,14 +5,33 @@
 import { NextResponse } from "next/server";
 import { MAX_FILE_SIZE } from "@/lib/constants";
 import { generateApiRequestSchema } from "@/lib/schemas";
+import { decodeSubtitleBuffer } from "@/lib/text-encoding";
+import type { CleanupOptions } from "@/lib/transcript-cleanup";
+import type { GenerationMode } from "@/lib/services/timestamp-generation/types";
+import type { CoverageConfig } from "@/lib/timestamp-utils/coverage";
+import type { DensityOptions } from "@/lib/timestamp-utils/density";
+import type { GroundingConfig } from "@/lib/timestamp-utils/grounding";
+import type { ModelSelection } from "@/lib/ai/model-client-factory";
+import type { PromptTemplate } from "@/lib/prompts";
+import type { StyleProfile } from "@/lib/timestamp-utils/style-profile";
 
 export interface ValidatedRequest {
   srtContent: string;
+  fileName?: string;
+  cleanup?: boolean | Partial<CleanupOptions>;
+  mode?: GenerationMode;
+  coverageRepair?: boolean | Partial<CoverageConfig>;
+  grounding?: boolean | Partial<GroundingConfig>;
+  model?: ModelSelection;
+  promptVersion?: string;
+  promptTemplate?: PromptTemplate;
+  styleProfile?: Pick<StyleProfile, "name"> & Partial<StyleProfile>;
+  density?: DensityOptions;
 }
 
 /**
  * Validate incoming request for timestamp generation
- * Checks size, parses JSON, and validates schema
+ * Checks size, decodes the body (BOM / UTF-16 aware), parses JSON, and validates schema
  */
 export async function validateGenerateRequest(
   request: Request
@@ -26,10 +45,11 @@ export async function validateGenerateRequest(
     );
   }
 
-  // Parse JSON body
+  // Decode and parse JSON body
   let body: unknown;
   try {
-    body = await request.json();
+    const { text } = decodeSubtitleBuffer(await request.arrayBuffer());
+    body = JSON.parse(text);
   } catch {
     throw new ValidationError("Invalid JSON in request body", 400);
   }
@@ -0,0 +1,80 @@
+/**
+ * Golden-transcript evaluation CLI
+ * Runs the generation pipeline over a folder of transcripts with reference chapters, prints a
+ * scored summary and saves the full report as JSON
+ *
+ * Usage:
+ *   bun run eval [--dir eval/golden] [--provider mock] [--model <id>] [--prompt v4] [--case <id>]
+ *                [--baseline eval/reports/<report>.json] [--out eval/reports] [--tolerance 30]
+ *                [--quiet]
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createModelClient } from "@/lib/ai/model-client-factory";
+import { loadGoldenSet } from "@/lib/eval/golden-set";
+import { formatReport, runEval } from "@/lib/eval/runner";
+import type { EvalReport } from "@/lib/eval/types";
+
+const { values: args } = parseArgs({
+  options: {
+    dir: { type: "string", default: "eval/golden" },
+    provider: { type: "string" },
+    model: { type: "string" },
+    prompt: { type: "string" },
+    case: { type: "string", multiple: true },
+    baseline: { type: "string" },
+    out: { type: "string", default: "eval/reports" },
+    tolerance: { type: "string" },
+    quiet: { type: "boolean", default: false },
+  },
+});
+
+// --provider and --model act like the TIMESTAMP_MODEL_PROVIDER / TIMESTAMP_MODEL variables
+const client = createModelClient(
+  {},
+  {
+    ...process.env,
+    ...(args.provider && { TIMESTAMP_MODEL_PROVIDER: args.provider }),
+    ...(args.model && { TIMESTAMP_MODEL: args.model }),
+  }
+);
+
+const goldenSet = await loadGoldenSet(args.dir);
+const cases = args.case
+  ? goldenSet.filter((goldenCase) => args.case?.includes(goldenCase.id))
+  : goldenSet;
+if (cases.length === 0) {
+  console.error(`No golden cases found in ${args.dir}`);
+  process.exit(1);
+}
+
+const baseline: EvalReport | undefined = args.baseline
+  ? JSON.parse(await readFile(args.baseline, "utf8"))
+  : undefined;
+
+// Pipeline logs drown out the report, so they can be silenced while cases run
+const { log, warn, error } = console;
+if (args.quiet) {
+  console.log = console.warn = console.error = () => {};
+}
+
+const report = await runEval(cases, {
+  client,
+  config: args.tolerance ? { matchToleranceSeconds: Number(args.tolerance) } : undefined,
+  generation: { promptVersion: args.prompt },
+  onCase: (caseReport, index, total) =>
+    log(`${caseReport.error ? "❌" : "✅"} [${index + 1}/${total}] ${caseReport.id}`),
+});
+Object.assign(console, { log, warn, error });
+
+const reportName = `${report.promptVersion}-${report.model}-${report.createdAt}`
+  .replace(/[^\w.-]+/g, "_")
+  .toLowerCase();
+const reportPath = path.join(args.out, `${reportName}.json`);
+await mkdir(args.out, { recursive: true });
+await writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+
+console.log(`\n${formatReport(report, baseline)}\n\n📄 Report saved to ${reportPath}`);
+process.exit(report.summary.failures > 0 ? 1 : 0);